@@ -3,7 +3,27 @@
  * Central location for all game balance and settings
  */
 
-import type { KeyBindings, VisualConfig } from '../types';
+import type {
+    AerialAttackProfile,
+    CpuDifficulty,
+    DashProfile,
+    CpuDifficultySettings,
+    DummyBehavior,
+    ElementalMatchup,
+    ElementalMatchupModifiers,
+    ElementalMode,
+    GamepadSlot,
+    InputState,
+    KeyBindings,
+    MatchRules,
+    PlayerId,
+    ProjectileProfile,
+    RoundsBestOf,
+    StageDefinition,
+    StageId,
+    TrainingOptions,
+    VisualConfig
+} from '../types';
 
 // ============================================
 // Canvas & Display
@@ -12,6 +32,7 @@ import type { KeyBindings, VisualConfig } from '../types';
 export const CANVAS_WIDTH = 1024;
 export const CANVAS_HEIGHT = 576;
 export const GROUND_Y = 480; // Ground level for characters
+export const STAGE_WIDTH = 1600; // Default arena width; the camera pans across it
 
 // ============================================
 // Character Settings
@@ -19,6 +40,7 @@ export const GROUND_Y = 480; // Ground level for characters
 
 export const CHARACTER_WIDTH = 80;
 export const CHARACTER_HEIGHT = 120;
+export const CROUCH_HEIGHT = 72; // Hurtbox height while crouching
 export const CHARACTER_SPEED = 300; // pixels per second
 export const JUMP_FORCE = -500;
 export const GRAVITY = 1200;
@@ -32,11 +54,164 @@ export const BASE_ATTACK_DAMAGE = 10;
 export const ATTACK_RANGE = 100;
 export const ATTACK_WIDTH = 80;
 export const ATTACK_HEIGHT = 60;
+export const CROUCH_ATTACK_HEIGHT_MULTIPLIER = 0.5; // Crouching attacks hit at foot level
 export const ATTACK_DURATION = 300; // milliseconds
 export const ATTACK_COOLDOWN = 500; // milliseconds
 export const HIT_STUN_DURATION = 200; // milliseconds
 export const KNOCKBACK_FORCE = 200;
 
+// ============================================
+// Dashes
+// ============================================
+
+export const DASH_DOUBLE_TAP_WINDOW = 12; // Frames allowed between the two taps
+export const DASH_DURATION = 200; // milliseconds, for every dash
+export const BACKDASH_INVULNERABILITY = 120; // milliseconds at the start of a grounded backdash
+
+/** Dash distances in pixels; only the high-jumping modes (Water, Wind) can air-dash */
+export const DASH_PROFILES: Record<ElementalMode, DashProfile> = {
+    Fire: { distance: 150, backdashDistance: 110, airDashDistance: 0 },
+    Water: { distance: 130, backdashDistance: 110, airDashDistance: 140 },
+    Earth: { distance: 100, backdashDistance: 80, airDashDistance: 0 },
+    Wind: { distance: 200, backdashDistance: 150, airDashDistance: 220 },
+    Light: { distance: 140, backdashDistance: 120, airDashDistance: 0 },
+    Dark: { distance: 140, backdashDistance: 130, airDashDistance: 0 },
+};
+
+// ============================================
+// Aerial Attacks
+// ============================================
+
+/** Jumping normals: hitboxes point down or diagonally and launch at their own angles */
+export const AERIAL_ATTACKS: Record<ElementalMode, AerialAttackProfile> = {
+    // Diagonal flaming kick that pops the target up and away
+    Fire: {
+        hitbox: { offsetX: -10, offsetY: 70, width: 70, height: 60 },
+        damageMultiplier: 1,
+        knockback: { x: 300, y: -160 },
+        hitStun: 220,
+        landingRecovery: 200,
+    },
+    // Splash beneath the body that launches straight up
+    Water: {
+        hitbox: { offsetX: -70, offsetY: 90, width: 100, height: 50 },
+        damageMultiplier: 0.9,
+        knockback: { x: 120, y: -320 },
+        hitStun: 260,
+        landingRecovery: 150,
+    },
+    // Stomp that spikes airborne targets to the ground
+    Earth: {
+        hitbox: { offsetX: -70, offsetY: 100, width: 60, height: 50 },
+        damageMultiplier: 1.2,
+        knockback: { x: 140, y: 360 },
+        hitStun: 240,
+        landingRecovery: 300,
+    },
+    // Long diagonal slice that pushes far
+    Wind: {
+        hitbox: { offsetX: 0, offsetY: 60, width: 90, height: 50 },
+        damageMultiplier: 0.9,
+        knockback: { x: 360, y: -60 },
+        hitStun: 160,
+        landingRecovery: 100,
+    },
+    // Prism kick angled down-forward
+    Light: {
+        hitbox: { offsetX: 0, offsetY: 50, width: 70, height: 50 },
+        damageMultiplier: 1,
+        knockback: { x: 260, y: -200 },
+        hitStun: 200,
+        landingRecovery: 180,
+    },
+    // Shadow claw below and in front that drags the target down
+    Dark: {
+        hitbox: { offsetX: -40, offsetY: 80, width: 80, height: 60 },
+        damageMultiplier: 1.1,
+        knockback: { x: 200, y: 240 },
+        hitStun: 240,
+        landingRecovery: 220,
+    },
+};
+
+/** Wind attack with a direction held while airborne: fly forward through the target */
+export const WIND_AIR_DASH_ATTACK: AerialAttackProfile = {
+    hitbox: { offsetX: -10, offsetY: 30, width: 70, height: 60 },
+    damageMultiplier: 1.2,
+    knockback: { x: 420, y: -120 },
+    hitStun: 220,
+    landingRecovery: 120,
+    dashSpeed: 560,
+};
+
+// ============================================
+// Input Buffer
+// ============================================
+
+export const INPUT_BUFFER_SIZE = 30; // Frames of input history kept per character
+export const INPUT_BUFFER_PRESS_WINDOW = 8; // Frames a button press stays usable
+export const MOTION_INPUT_WINDOW = 20; // Frames allowed from first direction to the button
+
+// ============================================
+// Block Settings
+// ============================================
+
+export const BLOCK_CHIP_DAMAGE_MULTIPLIER = 0.2; // Portion of raw damage that leaks through guard
+export const BLOCK_STUN_MULTIPLIER = 0.6; // Blockstun relative to the attack's hitstun
+export const BLOCK_KNOCKBACK_MULTIPLIER = 0.4;
+
+// ============================================
+// Throws
+// ============================================
+
+export const THROW_RANGE = 24; // Max gap between hurtboxes for a grab
+export const THROW_STARTUP_FRAMES = 5;
+export const THROW_WHIFF_RECOVERY_FRAMES = 24; // Punishable recovery of a missed grab
+export const THROW_TECH_WINDOW_FRAMES = 12; // Defender can press throw to escape in this time
+export const THROW_ANIMATION_FRAMES = 24;
+export const THROW_TECH_RECOVERY_FRAMES = 14;
+export const THROW_TECH_PUSHBACK = 300; // Speed both characters are pushed apart by a tech
+export const THROW_DAMAGE = 12; // Fixed: no elemental matchup or mode defense
+export const THROW_KNOCKBACK = { x: 320, y: -260 };
+export const THROW_HIT_STUN = 500;
+
+// ============================================
+// Combos
+// ============================================
+
+export const COMBO_DAMAGE_SCALING_PER_HIT = 0.1; // Damage lost by each hit after the first
+export const COMBO_MIN_DAMAGE_SCALING = 0.3; // Long combos never drop below this share
+export const COMBO_CALLOUT_DURATION = 1.5; // Seconds the "N HIT" callout stays after the combo
+
+// ============================================
+// Super Meter
+// ============================================
+
+export const SUPER_METER_MAX = 100;
+export const SUPER_METER_BAR_SIZE = 50; // Meter is spent in whole bars
+export const EX_ATTACK_METER_COST = SUPER_METER_BAR_SIZE;
+export const SUPER_MOVE_METER_COST = SUPER_METER_MAX;
+export const METER_GAIN_PER_DAMAGE_DEALT = 1.2;
+export const METER_GAIN_PER_DAMAGE_TAKEN = 0.8;
+export const METER_GAIN_TIMED_SWITCH = 8; // Switching modes while the opponent is attacking
+export const EX_ATTACK_MULTIPLIERS = { damage: 1.5, hitStun: 1.5, knockback: 1.3 } as const;
+export const SUPER_FREEZE_FRAMES = 45; // Cinematic pause when a super starts
+
+// ============================================
+// Camera & Impact
+// ============================================
+
+export const CAMERA_MIN_ZOOM = 0.8; // Widest view (must still fit inside STAGE_WIDTH)
+export const CAMERA_MAX_ZOOM = 1.2;
+export const CAMERA_PADDING = 160; // Space kept around both fighters (px)
+export const CAMERA_FOLLOW_SPEED = 6; // Higher catches up with the fighters faster
+export const SCREEN_SHAKE_PER_DAMAGE = 0.6; // Shake amplitude (px) per point of damage
+export const SCREEN_SHAKE_MAX = 14;
+export const SCREEN_SHAKE_DURATION = 250; // ms
+export const HITSTOP_BASE_FRAMES = 3; // Both fighters freeze on contact
+export const HITSTOP_FRAMES_PER_DAMAGE = 0.15;
+export const HITSTOP_MAX_FRAMES = 10;
+
 // ============================================
 // Mode Multipliers (Strategy Pattern values)
 // ============================================
@@ -94,8 +269,8 @@ export const LIGHT_MODE = {
     gravityMultiplier: 0.95,
     canFly: false,
     flightLift: 0,
-    attackRangeMultiplier: 4.2,
-    attackHeightMultiplier: 0.45,
+    attackRangeMultiplier: 1.0,
+    attackHeightMultiplier: 1.0,
 } as const;
 
 export const DARK_MODE = {
@@ -113,6 +288,32 @@ export const DARK_MODE = {
 
 export const ABSORBED_DAMAGE_BONUS_CAP = 35;
 
+// ============================================
+// Elemental Advantages
+// ============================================
+
+/**
+ * Modes each element is strong against. The reverse pairing is resisted,
+ * unless both sides list each other (Light and Dark counter each other).
+ */
+export const ELEMENTAL_ADVANTAGES: Record<ElementalMode, readonly ElementalMode[]> = {
+    Water: ['Fire'],
+    Fire: ['Wind'],
+    Wind: ['Earth'],
+    Earth: ['Water'],
+    Light: ['Dark'],
+    Dark: ['Light'],
+};
+
+export const ELEMENTAL_MATCHUP_MODIFIERS: Record<ElementalMatchup, ElementalMatchupModifiers> = {
+    effective: { damage: 1.3, hitStun: 1.25, knockback: 1.2 },
+    neutral: { damage: 1, hitStun: 1, knockback: 1 },
+    resisted: { damage: 0.75, hitStun: 0.8, knockback: 0.85 },
+};
+
+/** Seconds the "Effective!" / "Resisted" callout stays on screen */
+export const MATCHUP_CALLOUT_DURATION = 0.9;
+
 // ============================================
 // Visual Configurations
 // ============================================
@@ -163,16 +364,110 @@ export const DARK_VISUAL: VisualConfig = {
 // Player Starting Positions
 // ============================================
 
+export const START_OFFSET_FROM_CENTER = 312; // Outer edge of each fighter from the stage center
+
+/**
+ * Start x of both fighters, placed evenly around a stage's center
+ */
+function getStartX(centerX: number): Record<PlayerId, number> {
+    return {
+        Player1: centerX - START_OFFSET_FROM_CENTER,
+        Player2: centerX + START_OFFSET_FROM_CENTER - CHARACTER_WIDTH,
+    };
+}
+
+const DEFAULT_START_X = getStartX(STAGE_WIDTH / 2);
+
 export const PLAYER1_START = {
-    x: 200,
+    x: DEFAULT_START_X.Player1,
     y: GROUND_Y - CHARACTER_HEIGHT,
 };
 
 export const PLAYER2_START = {
-    x: CANVAS_WIDTH - 200 - CHARACTER_WIDTH,
+    x: DEFAULT_START_X.Player2,
     y: GROUND_Y - CHARACTER_HEIGHT,
 };
 
+// ============================================
+// Stages
+// ============================================
+
+export const DEFAULT_STAGE: StageId = 'NeonDojo';
+export const PLATFORM_DROP_DISTANCE = 2; // px pushed below a one-way platform to start falling through it
+
+export const STAGES: Record<StageId, StageDefinition> = {
+    NeonDojo: {
+        id: 'NeonDojo',
+        name: 'Neon Dojo',
+        width: STAGE_WIDTH,
+        groundY: GROUND_Y,
+        walls: { left: 0, right: STAGE_WIDTH },
+        maxPlayerDistance: 720,
+        startX: getStartX(STAGE_WIDTH / 2),
+        surfaces: [],
+        theme: {
+            skyColors: ['#1a1a2e', '#16213e', '#0f3460'],
+            groundColors: ['#2d1b4e', '#1a1a2e'],
+            lineColor: '#4ecdc4',
+            wallColor: 'rgba(78, 205, 196, 0.3)',
+        },
+        layers: [
+            { shape: 'mountains', color: 'rgba(22, 33, 62, 0.9)', scrollFactor: 0.2, baseY: GROUND_Y, height: 180, spacing: 320 },
+            { shape: 'towers', color: 'rgba(45, 27, 78, 0.8)', scrollFactor: 0.5, baseY: GROUND_Y, height: 140, spacing: 220 },
+        ],
+    },
+    EmberCanyon: {
+        id: 'EmberCanyon',
+        name: 'Ember Canyon',
+        width: 2000,
+        groundY: 460,
+        walls: { left: 40, right: 1960 },
+        maxPlayerDistance: 760,
+        startX: getStartX(2000 / 2),
+        surfaces: [
+            { type: 'block', x: 180, y: 380, width: 140, height: 80 },
+            { type: 'block', x: 1680, y: 380, width: 140, height: 80 },
+            { type: 'platform', x: 400, y: 320, width: 220, height: 12 },
+            { type: 'platform', x: 1380, y: 320, width: 220, height: 12 },
+            { type: 'platform', x: 880, y: 230, width: 240, height: 12 },
+        ],
+        theme: {
+            skyColors: ['#2b0f0e', '#5c1a0b', '#a83a0c'],
+            groundColors: ['#4a1c0c', '#1f0a05'],
+            lineColor: '#ff9f43',
+            wallColor: 'rgba(255, 159, 67, 0.35)',
+        },
+        layers: [
+            { shape: 'mountains', color: 'rgba(74, 20, 10, 0.9)', scrollFactor: 0.15, baseY: 460, height: 240, spacing: 420 },
+            { shape: 'mountains', color: 'rgba(120, 40, 12, 0.8)', scrollFactor: 0.45, baseY: 460, height: 130, spacing: 260 },
+        ],
+    },
+    TidalHarbor: {
+        id: 'TidalHarbor',
+        name: 'Tidal Harbor',
+        width: 1280,
+        groundY: 500,
+        walls: { left: 0, right: 1280 },
+        maxPlayerDistance: 640,
+        startX: getStartX(1280 / 2),
+        surfaces: [
+            { type: 'block', x: 60, y: 440, width: 100, height: 60 },
+            { type: 'block', x: 1120, y: 440, width: 100, height: 60 },
+            { type: 'platform', x: 480, y: 360, width: 320, height: 12 },
+        ],
+        theme: {
+            skyColors: ['#0b1d3a', '#123d6b', '#1f6f9c'],
+            groundColors: ['#1c3b4f', '#0b1d2a'],
+            lineColor: '#7dd3fc',
+            wallColor: 'rgba(125, 211, 252, 0.35)',
+        },
+        layers: [
+            { shape: 'towers', color: 'rgba(15, 40, 70, 0.9)', scrollFactor: 0.25, baseY: 500, height: 200, spacing: 180 },
+            { shape: 'waves', color: 'rgba(31, 111, 156, 0.6)', scrollFactor: 0.6, baseY: 500, height: 40, spacing: 120 },
+        ],
+    },
+};
+
 // ============================================
 // Input Key Bindings
 // ============================================
@@ -184,6 +479,8 @@ export const PLAYER1_KEYS: KeyBindings = {
     right: 'KeyD',
     attack: 'KeyF',
     switchMode: 'KeyG',
+    block: 'KeyH',
+    throw: 'KeyQ',
 };
 
 export const PLAYER2_KEYS: KeyBindings = {
@@ -193,6 +490,80 @@ export const PLAYER2_KEYS: KeyBindings = {
     right: 'ArrowRight',
     attack: 'KeyK',
     switchMode: 'KeyL',
+    block: 'KeyJ',
+    throw: 'KeyI',
+};
+
+export const DEFAULT_KEY_BINDINGS: Record<PlayerId, KeyBindings> = {
+    Player1: PLAYER1_KEYS,
+    Player2: PLAYER2_KEYS,
+};
+
+/** Keys handled by the global shortcuts in main.ts; players cannot bind them */
+export const GLOBAL_SHORTCUT_KEYS = {
+    restart: 'KeyR',
+    pause: 'KeyP',
+    trainingRecord: 'KeyT',
+    hitboxOverlay: 'F2',
+    backToSetup: 'Escape',
+} as const;
+
+export const KEY_BINDINGS_STORAGE_KEY = 'colorclash.keyBindings';
+
+// ============================================
+// Gamepad (W3C "standard" mapping indices)
+// ============================================
+
+export const GAMEPAD_SLOTS: readonly GamepadSlot[] = [0, 1, 2, 3];
+export const GAMEPAD_STICK_DEADZONE = 0.35; // Ignore left stick drift below this
+export const GAMEPAD_TRIGGER_THRESHOLD = 0.5; // Analog buttons count as pressed past this
+
+export const GAMEPAD_BUTTONS: Record<keyof InputState, readonly number[]> = {
+    up: [12],
+    down: [13],
+    left: [14],
+    right: [15],
+    attack: [0, 2], // A / X
+    block: [1, 7], // B / right trigger
+    switchMode: [3, 5], // Y / right bumper
+    throw: [4, 6], // Left bumper / left trigger
+};
+
+/** Pause menu navigation (any connected pad) */
+export const GAMEPAD_MENU_BUTTONS = {
+    up: [12],
+    down: [13],
+    confirm: [0], // A
+    back: [1], // B
+    pause: [9], // Start
+} as const;
+
+// ============================================
+// CPU Opponent
+// ============================================
+
+export const CPU_DIFFICULTY_SETTINGS: Record<CpuDifficulty, CpuDifficultySettings> = {
+    Easy: {
+        reactionDelayFrames: 30,
+        attackChance: 0.35,
+        blockChance: 0.15,
+        modeSwitchAccuracy: 0,
+        modeSwitchIntervalFrames: 360,
+    },
+    Normal: {
+        reactionDelayFrames: 16,
+        attackChance: 0.6,
+        blockChance: 0.45,
+        modeSwitchAccuracy: 0.5,
+        modeSwitchIntervalFrames: 180,
+    },
+    Hard: {
+        reactionDelayFrames: 6,
+        attackChance: 0.9,
+        blockChance: 0.8,
+        modeSwitchAccuracy: 1,
+        modeSwitchIntervalFrames: 90,
+    },
 };
 
 // ============================================
@@ -203,6 +574,21 @@ export const PARTICLE_POOL_SIZE = 100;
 export const PARTICLE_DEFAULT_LIFETIME = 500; // milliseconds
 export const PARTICLE_DEFAULT_SIZE = 8;
 
+// ============================================
+// Projectiles
+// ============================================
+
+export const PROJECTILE_POOL_SIZE = 8;
+export const PROJECTILE_TRAIL_INTERVAL = 2; // simulation steps between trail particles
+
+/** Light mode normal attack: a fast, thin bolt instead of a long melee hitbox */
+export const LIGHT_PROJECTILE: ProjectileProfile = {
+    speed: 720,
+    width: 56,
+    height: 18,
+    lifetime: 700,
+};
+
 // ============================================
 // UI Settings
 // ============================================
@@ -217,3 +603,48 @@ export const HEALTH_BAR_PADDING = 30;
 
 export const TARGET_FPS = 60;
 export const FIXED_TIMESTEP = 1000 / TARGET_FPS; // ~16.67ms
+export const FIXED_DELTA_SECONDS = FIXED_TIMESTEP / 1000;
+export const MAX_FRAME_DELTA_MS = 100; // Clamp for long frames (tab switches, breakpoints)
+export const MAX_SIMULATION_STEPS_PER_FRAME = 10;
+export const HEADLESS_MATCH_FRAME_LIMIT = TARGET_FPS * 99; // Safety stop for scripted matches
+
+// ============================================
+// Rounds
+// ============================================
+
+export const ROUNDS_BEST_OF_OPTIONS: readonly RoundsBestOf[] = [1, 3, 5];
+export const DEFAULT_MATCH_RULES: MatchRules = { bestOf: 3, roundTimeLimit: 99 };
+/** Rules of headless matches and replays recorded before rounds existed */
+export const SINGLE_ROUND_RULES: MatchRules = { bestOf: 1, roundTimeLimit: null };
+/** Tournament rematch after a drawn match */
+export const SUDDEN_DEATH_RULES: MatchRules = { bestOf: 1, roundTimeLimit: 30 };
+export const ROUND_INTRO_DURATION = 1.6; // seconds: "Round N", then "Fight!"
+export const ROUND_INTRO_FIGHT_SHARE = 0.4; // last part of the intro that shows "Fight!"
+export const ROUND_OUTRO_DURATION = 2; // seconds the round result stays up
+
+// ============================================
+// Training Mode
+// ============================================
+
+export const DUMMY_BEHAVIORS: ReadonlyArray<{ value: DummyBehavior; label: string }> = [
+    { value: 'stand', label: 'Stand' },
+    { value: 'jump', label: 'Jump' },
+    { value: 'block', label: 'Block' },
+    { value: 'crouchBlock', label: 'Crouch block' },
+    { value: 'mirror', label: 'Mirror player' },
+    { value: 'playback', label: 'Play recording' },
+];
+export const DEFAULT_TRAINING_OPTIONS: TrainingOptions = {
+    dummyBehavior: 'stand',
+    infiniteHealth: true,
+    instantCooldowns: false,
+};
+export const TRAINING_RECORDING_MAX_FRAMES = TARGET_FPS * 10; // Longest dummy recording
+
+// ============================================
+// Replays
+// ============================================
+
+export const REPLAY_FORMAT_VERSION = 1;
+export const REPLAY_PLAYBACK_SPEEDS = [0.25, 0.5, 1, 2, 4] as const;
+export const REPLAY_MAX_FRAMES = TARGET_FPS * 60 * 60; // Longer files are rejected rather than expanded
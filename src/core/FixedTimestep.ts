@@ -0,0 +1,54 @@
+/**
+ * Fixed Timestep Accumulator
+ * Converts variable frame times into a whole number of fixed simulation steps
+ */
+
+import {
+    FIXED_TIMESTEP,
+    MAX_FRAME_DELTA_MS,
+    MAX_SIMULATION_STEPS_PER_FRAME
+} from '../constants/GameConfig';
+
+export class FixedTimestep {
+    private accumulator = 0;
+
+    constructor(
+        private readonly stepMs: number = FIXED_TIMESTEP,
+        private readonly maxSteps: number = MAX_SIMULATION_STEPS_PER_FRAME
+    ) { }
+
+    /**
+     * Add elapsed frame time and get how many fixed steps should run
+     * @param elapsedMs - Real time since the previous frame in milliseconds
+     */
+    advance(elapsedMs: number): number {
+        this.accumulator += Math.min(Math.max(elapsedMs, 0), MAX_FRAME_DELTA_MS);
+
+        let steps = 0;
+        while (this.accumulator >= this.stepMs && steps < this.maxSteps) {
+            this.accumulator -= this.stepMs;
+            steps++;
+        }
+
+        // Drop any backlog we could not catch up on to avoid a spiral of death
+        if (this.accumulator >= this.stepMs) {
+            this.accumulator %= this.stepMs;
+        }
+
+        return steps;
+    }
+
+    /**
+     * Fraction of a step left in the accumulator, used for render interpolation
+     */
+    getAlpha(): number {
+        return this.accumulator / this.stepMs;
+    }
+
+    /**
+     * Discard accumulated time (e.g. after a pause)
+     */
+    reset(): void {
+        this.accumulator = 0;
+    }
+}
@@ -5,24 +5,77 @@
 
 import { Character } from '../entities/Character';
 import { CharacterFactory } from '../patterns/factory/CharacterFactory';
+import { AIController } from '../systems/AIController';
+import { Camera } from '../systems/Camera';
+import { FrameDataTracker } from '../systems/FrameDataTracker';
 import { InputHandler } from '../systems/InputHandler';
+import { KeyBindingStore } from '../systems/KeyBindingStore';
 import { ParticleSystem } from '../systems/ParticleSystem';
 import { CollisionSystem } from '../systems/CollisionSystem';
+import { ReplayPlayer, ReplayRecorder } from '../systems/ReplaySystem';
+import { TrainingDummy } from '../systems/TrainingDummy';
 import { GameHUD } from '../ui/GameHUD';
-import type { GameState, MatchCharacterSelection, PlayerId } from '../types';
+import { HitboxOverlay } from '../ui/HitboxOverlay';
+import { TrainingPanel } from '../ui/TrainingPanel';
+import type { IObserver } from '../patterns/observer/Observer';
+import { FixedTimestep } from './FixedTimestep';
+import { GameSimulation } from './GameSimulation';
+import { MatchScore } from './MatchScore';
+import { SeededRandom } from './SeededRandom';
+import type {
+    CharacterEvent,
+    GameState,
+    InputSource,
+    KeyBindings,
+    MatchCharacterSelection,
+    MatchOutcome,
+    MatchRules,
+    PlayerController,
+    PlayerId,
+    ProjectileImpactEvent,
+    ReplayData,
+    RoundResult,
+    StageBackgroundLayer,
+    StageDefinition,
+    StageId,
+    SuperFreeze,
+    TrainingOptions
+} from '../types';
 import {
     CANVAS_WIDTH,
     CANVAS_HEIGHT,
-    GROUND_Y,
-    PLAYER1_START,
-    PLAYER2_START
+    DEFAULT_MATCH_RULES,
+    DEFAULT_STAGE,
+    FIXED_DELTA_SECONDS,
+    PROJECTILE_TRAIL_INTERVAL,
+    REPLAY_PLAYBACK_SPEEDS,
+    ROUND_INTRO_DURATION,
+    ROUND_OUTRO_DURATION,
+    SINGLE_ROUND_RULES,
+    STAGES
 } from '../constants/GameConfig';
 
 interface MatchFlowOptions {
     autoRestartOnVictory?: boolean;
-    onMatchEnd?: (winner: PlayerId) => void;
+    onMatchEnd?: (outcome: MatchOutcome) => void;
+    /** Start pressed on a player's gamepad */
+    onPauseRequest?: () => void;
     victorySubtext?: string;
     playerDisplayNames?: Partial<Record<PlayerId, string>>;
+    /** Players left out default to Human */
+    controllers?: Partial<Record<PlayerId, PlayerController>>;
+    /** Keyboard or gamepad slot per human player (defaults to keyboard) */
+    inputSources?: Partial<Record<PlayerId, InputSource>>;
+    /** Rebound keyboard maps (defaults per player otherwise) */
+    keyBindings?: Record<PlayerId, KeyBindings>;
+    /** Best-of and round timer (replays bring their own) */
+    rules?: MatchRules;
+    /** Stage to fight on (replays bring their own) */
+    stage?: StageId;
+    /** Watch a recorded match instead of taking live input */
+    replay?: ReplayData;
+    /** Practice against a training dummy (Player 2); no rounds are scored */
+    training?: TrainingOptions;
 }
 
 /**
@@ -41,30 +94,55 @@ export class GameEngine {
     private isRunning = false;
     private lastTime = 0;
     private animationFrameId: number | null = null;
+    private readonly timestep = new FixedTimestep();
 
     // Game objects
+    private simulation: GameSimulation | null = null;
+    private selection: MatchCharacterSelection = { Player1: 'Fighter', Player2: 'Fighter' };
+    private seed = 0;
     private player1: Character | null = null;
     private player2: Character | null = null;
+    private cpuControllers: Partial<Record<PlayerId, AIController>> = {};
 
     // Systems
     private inputHandler: InputHandler;
     private particleSystem: ParticleSystem;
     private hud: GameHUD;
+    private readonly camera = new Camera();
 
-    // Game state
-    private gameState: GameState = {
-        isRunning: false,
-        isPaused: false,
-        winner: null,
-        roundTime: 0,
+    // Projectile hits and clashes burst into particles (Observer pattern)
+    private readonly projectileImpactObserver: IObserver<ProjectileImpactEvent> = {
+        update: event => this.particleSystem.spawnHitEffect(event.position, event.particleType),
+    };
+
+    // Damage shakes the screen in proportion to its size (Observer pattern)
+    private readonly impactShakeObserver: IObserver<CharacterEvent> = {
+        update: event => {
+            if ('currentHealth' in event && event.damage > 0) {
+                this.camera.shake(event.damage);
+            }
+        },
     };
 
+    // Game state
+    private gameState: GameState = GameEngine.createGameState(false);
+
+    // Rounds
+    private rules: MatchRules = DEFAULT_MATCH_RULES;
+    private score = new MatchScore(DEFAULT_MATCH_RULES);
+    private phaseTimeLeft = 0;
+
     // Performance tracking
     private fps = 0;
     private frameCount = 0;
     private fpsUpdateTime = 0;
     private autoRestartOnVictory = true;
-    private matchEndCallback: ((winner: PlayerId) => void) | null = null;
+    private matchEndCallback: ((outcome: MatchOutcome) => void) | null = null;
+    private pauseRequestCallback: (() => void) | null = null;
+    private inputSources: Partial<Record<PlayerId, InputSource>> = {};
+    private debugInfoVisible = true;
+    private hitboxOverlayVisible = false;
+    private readonly hitboxOverlay = new HitboxOverlay();
     private victorySubtext = 'Restarting in 3 seconds...';
     private restartTimeoutId: number | null = null;
     private playerDisplayNames: Record<PlayerId, string> = {
@@ -72,6 +150,18 @@ export class GameEngine {
         Player2: 'Player 2',
     };
 
+    // Replays
+    private recorder: ReplayRecorder | null = null;
+    private replayPlayer: ReplayPlayer | null = null;
+    private playbackSpeed = 1;
+    private replayedRoundRestarts = 0;
+
+    // Training mode
+    private trainingOptions: TrainingOptions | null = null;
+    private trainingDummy: TrainingDummy | null = null;
+    private frameDataTracker: FrameDataTracker | null = null;
+    private readonly trainingPanel = new TrainingPanel();
+
     /**
      * Private constructor for Singleton pattern
      */
@@ -93,6 +183,12 @@ export class GameEngine {
         this.particleSystem = new ParticleSystem();
         this.hud = new GameHUD();
 
+        // Record live commands for replays
+        this.inputHandler.setCommandListener((playerId, command) => {
+            this.recorder?.recordCommand(playerId, command);
+        });
+        this.inputHandler.setPauseListener(() => this.pauseRequestCallback?.());
+
         // Bind game loop
         this.gameLoop = this.gameLoop.bind(this);
     }
@@ -122,6 +218,8 @@ export class GameEngine {
     ): void {
         this.autoRestartOnVictory = flowOptions.autoRestartOnVictory ?? true;
         this.matchEndCallback = flowOptions.onMatchEnd ?? null;
+        this.pauseRequestCallback = flowOptions.onPauseRequest ?? null;
+        this.inputSources = { ...flowOptions.inputSources };
         this.victorySubtext = flowOptions.victorySubtext ??
             (this.autoRestartOnVictory ? 'Restarting in 3 seconds...' : 'Preparing next match...');
         this.playerDisplayNames = {
@@ -134,16 +232,55 @@ export class GameEngine {
             this.restartTimeoutId = null;
         }
 
-        // Create players using Factory pattern
-        [this.player1, this.player2] = CharacterFactory.createMatchPlayers(
-            selection.Player1,
-            selection.Player2
-        );
+        // Create players using Factory pattern (inside the simulation core)
+        this.selection = { ...selection };
+        this.replayPlayer = flowOptions.replay ? new ReplayPlayer(flowOptions.replay) : null;
+        this.seed = flowOptions.replay?.seed ?? SeededRandom.createSeed();
+        this.playbackSpeed = 1;
+        this.replayedRoundRestarts = 0;
+        this.trainingOptions = flowOptions.training && !flowOptions.replay ? { ...flowOptions.training } : null;
+        this.rules = flowOptions.replay
+            ? flowOptions.replay.rules ?? SINGLE_ROUND_RULES
+            : this.trainingOptions ? SINGLE_ROUND_RULES : flowOptions.rules ?? DEFAULT_MATCH_RULES;
+        this.score = new MatchScore(this.rules);
+        const stage = (flowOptions.replay ? flowOptions.replay.stage : flowOptions.stage) ?? DEFAULT_STAGE;
+        const simulation = new GameSimulation(selection, this.seed, flowOptions.keyBindings, stage);
+        this.simulation = simulation;
+        this.camera.setStageWidth(simulation.stage.width);
+        simulation.projectiles.attach(this.projectileImpactObserver);
+        this.player1 = simulation.player1;
+        this.player2 = simulation.player2;
+        this.timestep.reset();
+
+        // The training dummy takes Player 2; frame data is measured on both sides
+        this.frameDataTracker?.dispose();
+        this.trainingDummy = this.trainingOptions ? new TrainingDummy(this.trainingOptions.dummyBehavior) : null;
+        this.frameDataTracker = this.trainingOptions
+            ? new FrameDataTracker([this.player1, this.player2])
+            : null;
+
+        // Register human players with input handler, hand the rest to CPU controllers
+        this.cpuControllers = {};
+        [this.player1, this.player2].forEach(character => {
+            if (this.trainingDummy && character.playerId === 'Player2') {
+                this.inputHandler.unregisterPlayer(character.playerId);
+                return;
+            }
+
+            const controller = flowOptions.controllers?.[character.playerId] ?? 'Human';
+            if (controller === 'Human' || this.replayPlayer) {
+                this.inputHandler.registerPlayer(
+                    character,
+                    flowOptions.inputSources?.[character.playerId] ?? 'keyboard'
+                );
+                return;
+            }
 
-        // Register players with input handler
-        this.inputHandler.registerPlayer(this.player1);
-        this.inputHandler.registerPlayer(this.player2);
-        this.inputHandler.setEnabled(true);
+            this.inputHandler.unregisterPlayer(character.playerId);
+            this.cpuControllers[character.playerId] = new AIController(controller, simulation.random);
+        });
+        this.inputHandler.setEnabled(!this.replayPlayer);
+        this.startRecording();
 
         // Clear visuals carried over from previous match init calls
         this.particleSystem.clear();
@@ -153,24 +290,57 @@ export class GameEngine {
         // Subscribe HUD to player events (Observer pattern)
         this.hud.subscribeToCharacter(this.player1);
         this.hud.subscribeToCharacter(this.player2);
+        this.hud.setMatchRules(this.rules);
+        this.player1.attach(this.impactShakeObserver);
+        this.player2.attach(this.impactShakeObserver);
 
         // Reset game state
-        this.gameState = {
-            isRunning: true,
-            isPaused: false,
-            winner: null,
-            roundTime: 0,
-        };
+        this.gameState = GameEngine.createGameState(true);
+        this.startRoundIntro();
+
+        this.refreshControlsHint();
 
         console.log('Game initialized');
-        console.log(
-            `Player 1: ${CharacterFactory.getCharacterName(selection.Player1)} | WASD move, F attack, G switch`
-        );
-        console.log(
-            `Player 2: ${CharacterFactory.getCharacterName(selection.Player2)} | Arrows move, K attack, L switch`
+        console.log(`Player 1: ${CharacterFactory.getCharacterName(selection.Player1)} | ${this.describeControls(this.player1)}`);
+        console.log(`Player 2: ${CharacterFactory.getCharacterName(selection.Player2)} | ${this.describeControls(this.player2)}`);
+    }
+
+    /**
+     * Show both players' controls at the bottom of the screen
+     */
+    private refreshControlsHint(): void {
+        if (!this.player1 || !this.player2) return;
+
+        this.hud.setControlsHint(
+            `${this.describeControls(this.player1)} (Left Player) | ` +
+            `${this.describeControls(this.player2)} (Right Player) | P: Pause | ESC: Back to Setup`
         );
     }
 
+    /**
+     * Short description of who controls a player and how
+     */
+    private describeControls(character: Character): string {
+        if (this.trainingDummy && character.playerId === 'Player2') {
+            return 'Training dummy';
+        }
+
+        const cpuController = this.cpuControllers[character.playerId];
+        if (cpuController) {
+            return `CPU (${cpuController.difficulty})`;
+        }
+
+        const source = this.inputSources[character.playerId] ?? 'keyboard';
+        if (source !== 'keyboard') {
+            return `Gamepad ${source + 1}`;
+        }
+
+        const key = (code: string): string => KeyBindingStore.formatKey(code);
+        const bindings = character.keyBindings;
+        return `${key(bindings.up)}${key(bindings.left)}${key(bindings.down)}${key(bindings.right)} + ` +
+            `${key(bindings.attack)}/${key(bindings.switchMode)}/${key(bindings.block)}/${key(bindings.throw)}`;
+    }
+
     /**
      * Start the game loop
      */
@@ -179,6 +349,7 @@ export class GameEngine {
 
         this.isRunning = true;
         this.lastTime = performance.now();
+        this.timestep.reset();
         this.animationFrameId = requestAnimationFrame(this.gameLoop);
 
         console.log('Game started');
@@ -202,60 +373,158 @@ export class GameEngine {
     }
 
     /**
-     * Main game loop with delta time calculation
+     * Main game loop: fixed-step simulation, interpolated rendering
      */
     private gameLoop(currentTime: number): void {
         if (!this.isRunning) return;
 
-        // Calculate delta time in seconds
-        const deltaTime = (currentTime - this.lastTime) / 1000;
+        const elapsedMs = currentTime - this.lastTime;
         this.lastTime = currentTime;
 
-        // Cap delta time to prevent spiral of death
-        const cappedDelta = Math.min(deltaTime, 0.1);
-
         // Update FPS counter
         this.updateFPS(currentTime);
 
-        // Game update
-        if (!this.gameState.isPaused) {
-            this.update(cappedDelta);
+        // Run as many fixed steps as real time allows (a pause can start mid-batch)
+        if (this.gameState.isPaused) {
+            this.timestep.reset();
+        } else {
+            const steps = this.timestep.advance(elapsedMs * this.playbackSpeed);
+            for (let step = 0; step < steps && !this.gameState.isPaused; step++) {
+                this.update();
+            }
         }
 
-        // Render
-        this.render();
+        // Render between the last two simulation steps
+        this.render(this.gameState.isPaused ? 1 : this.timestep.getAlpha());
 
         // Schedule next frame
         this.animationFrameId = requestAnimationFrame(this.gameLoop);
     }
 
     /**
-     * Update game logic
+     * Advance game logic by one fixed step
      */
-    private update(deltaTime: number): void {
-        if (!this.player1 || !this.player2) return;
+    private update(): void {
+        if (!this.simulation || !this.player1 || !this.player2) return;
+
+        if (!this.replayPlayer) {
+            this.inputHandler.pollPauseButtons();
+        }
 
-        // Update round time
-        this.gameState.roundTime += deltaTime;
+        // Round intros and results hold the fight still; effects keep playing
+        if (this.gameState.phase === 'intro' || this.gameState.phase === 'roundOver') {
+            this.updateRoundTransition();
+            this.updateCamera();
+            this.particleSystem.update(FIXED_DELTA_SECONDS);
+            this.hud.tick(FIXED_DELTA_SECONDS);
+            return;
+        }
 
-        // Update players
-        this.player1.update(deltaTime);
-        this.player2.update(deltaTime);
+        // Feed this step's input: recorded replay frames or live capture
+        if (this.replayPlayer) {
+            if (this.isReplayFinished()) {
+                this.gameState.isPaused = true;
+                return;
+            }
+            if (this.replayPlayer.getRoundRestartFrame(this.replayedRoundRestarts) === this.simulation.getFrame()) {
+                this.replayedRoundRestarts++;
+                this.restartRound();
+                return;
+            }
+            this.replayPlayer.applyFrame(this.simulation.getFrame(), this.player1, this.player2);
+        } else if (!this.gameState.winner) {
+            this.inputHandler.pollGamepads();
+            this.updateCpuPlayers();
+            this.updateTrainingDummy();
+            this.recorder?.recordFrame(this.player1, this.player2);
+        }
 
-        // Resolve character-to-character collision
-        CollisionSystem.resolveCharacterCollision(this.player1, this.player2);
+        // Update players and collisions
+        this.simulation.step();
+        this.applyTrainingAids();
+        this.gameState.roundTime = this.simulation.getRoundTime();
+        this.hud.setRoundTimer(this.getRoundTimeLeft());
 
-        // Update particle system
-        this.particleSystem.update(deltaTime);
+        // Update camera and particle system
+        this.updateCamera();
+        this.particleSystem.update(FIXED_DELTA_SECONDS);
+        this.spawnProjectileTrails();
 
         // Update HUD
-        this.hud.tick(deltaTime);
+        this.hud.tick(FIXED_DELTA_SECONDS);
 
         // Spawn particles on hit
         this.checkAndSpawnHitParticles();
 
-        // Check for victory
-        this.checkVictory();
+        // Check for the end of the round
+        this.checkRoundEnd();
+    }
+
+    /**
+     * Keep both fighters framed
+     */
+    private updateCamera(): void {
+        if (!this.player1 || !this.player2) return;
+        this.camera.follow([this.player1.getHurtbox(), this.player2.getHurtbox()], FIXED_DELTA_SECONDS);
+    }
+
+    /**
+     * Let CPU controllers issue this step's commands
+     */
+    private updateCpuPlayers(): void {
+        if (!this.player1 || !this.player2) return;
+
+        const matchups: Array<[Character, Character]> = [
+            [this.player1, this.player2],
+            [this.player2, this.player1],
+        ];
+
+        matchups.forEach(([self, opponent]) => {
+            const controller = this.cpuControllers[self.playerId];
+            controller?.getCommands(self, opponent).forEach(command => {
+                command.execute(self);
+                this.recorder?.recordCommand(self.playerId, command);
+            });
+        });
+    }
+
+    private updateTrainingDummy(): void {
+        if (!this.trainingDummy || !this.player1 || !this.player2) return;
+
+        const dummy = this.player2;
+        this.trainingDummy.getCommands(dummy, this.player1).forEach(command => command.execute(dummy));
+    }
+
+    /**
+     * Measure frame data, then refill health and cooldowns as the training options ask
+     */
+    private applyTrainingAids(): void {
+        if (!this.trainingOptions || !this.player1 || !this.player2) return;
+
+        this.frameDataTracker?.afterStep();
+
+        const { infiniteHealth, instantCooldowns } = this.trainingOptions;
+        [this.player1, this.player2].forEach(character => {
+            // Refill once the combo is over, so its damage can still be read off the bar
+            if (infiniteHealth && character.health < character.maxHealth &&
+                (!character.isHitStunned || character.isDefeated())) {
+                character.restoreHealth();
+            }
+            if (instantCooldowns) {
+                character.resetAttackCooldown();
+            }
+        });
+    }
+
+    /**
+     * Leave a particle trail behind flying projectiles
+     */
+    private spawnProjectileTrails(): void {
+        if (!this.simulation || this.simulation.getFrame() % PROJECTILE_TRAIL_INTERVAL !== 0) return;
+
+        this.simulation.projectiles.getProjectiles().forEach(projectile => {
+            this.particleSystem.spawnTrail(projectile.getCenter(), projectile.result.particleType);
+        });
     }
 
     /**
@@ -274,7 +543,7 @@ export class GameEngine {
             if (hitPoint) {
                 this.particleSystem.spawnHitEffect(
                     hitPoint,
-                    this.player1.getElementalMode().getParticleType()
+                    this.player1.getHitParticleType()
                 );
             }
         }
@@ -289,35 +558,150 @@ export class GameEngine {
             if (hitPoint) {
                 this.particleSystem.spawnHitEffect(
                     hitPoint,
-                    this.player2.getElementalMode().getParticleType()
+                    this.player2.getHitParticleType()
                 );
             }
         }
     }
 
     /**
-     * Check for victory condition
+     * Count down the intro or result screen, then move to the next phase
      */
-    private checkVictory(): void {
-        if (!this.player1 || !this.player2) return;
+    private updateRoundTransition(): void {
+        this.phaseTimeLeft -= FIXED_DELTA_SECONDS;
+        if (this.phaseTimeLeft > 0) return;
+
+        if (this.gameState.phase === 'roundOver') {
+            this.startNextRound();
+            return;
+        }
+
+        this.gameState.phase = 'fighting';
+    }
+
+    /**
+     * Check for a knockout or time-out and score the round
+     */
+    private checkRoundEnd(): void {
+        if (!this.simulation || this.gameState.phase !== 'fighting') return;
+
+        const result = this.simulation.getRoundResult(this.score.getRound(), this.rules.roundTimeLimit);
+        if (!result) return;
+
+        this.score.recordRound(result);
+        this.gameState.roundWins = this.score.getWins();
+        this.hud.setRoundWins(this.gameState.roundWins);
+
+        const outcome = this.score.getMatchOutcome();
+        if (outcome) {
+            this.gameState.phase = 'matchOver';
+            this.gameState.winner = outcome;
+            this.showVictory(outcome);
+            return;
+        }
+
+        this.gameState.phase = 'roundOver';
+        this.phaseTimeLeft = ROUND_OUTRO_DURATION;
+        this.hud.showAnnouncement(
+            GameEngine.getRoundEndTitle(result),
+            this.describeRoundResult(result),
+            ROUND_OUTRO_DURATION
+        );
+    }
+
+    private describeRoundResult(result: RoundResult): string {
+        if (!result.winner) {
+            return 'Draw - both players take the round';
+        }
+        return `${this.playerDisplayNames[result.winner]} takes round ${result.round}`;
+    }
+
+    private static getRoundEndTitle(result: RoundResult): string {
+        switch (result.reason) {
+            case 'knockout':
+                return 'K.O.';
+            case 'doubleKnockout':
+                return 'DOUBLE K.O.';
+            case 'timeout':
+                return 'TIME';
+        }
+    }
+
+    /**
+     * Put both fighters back in place for the next round
+     */
+    private startNextRound(): void {
+        if (!this.simulation) return;
+
+        this.simulation.resetRound();
+        this.recorder?.discardPendingCommands();
+        this.replayPlayer?.rewind();
+        this.resetInputSources();
+        this.particleSystem.clear();
+        this.startRoundIntro();
+    }
+
+    /**
+     * Characters forget held input when reset: make everything that feeds
+     * them commands forget it too, so input still held is sent again
+     */
+    private resetInputSources(): void {
+        this.cpuControllers.Player1?.reset();
+        this.cpuControllers.Player2?.reset();
+        this.trainingDummy?.reset();
+        this.inputHandler.reapplyHeldInput();
+    }
 
-        if (this.player1.isDefeated() && !this.gameState.winner) {
-            this.gameState.winner = 'Player2';
-            this.showVictory('Player2');
-        } else if (this.player2.isDefeated() && !this.gameState.winner) {
-            this.gameState.winner = 'Player1';
-            this.showVictory('Player1');
+    /**
+     * Fight the current round again from the start (score is kept)
+     */
+    restartRound(): void {
+        if (this.gameState.phase !== 'intro' && this.gameState.phase !== 'fighting') return;
+
+        this.recorder?.recordRoundRestart();
+        this.startNextRound();
+        console.log(`Round ${this.gameState.round} restarted`);
+    }
+
+    private startRoundIntro(): void {
+        this.gameState.phase = 'intro';
+        this.gameState.round = this.score.getRound();
+        this.gameState.roundTime = 0;
+        this.phaseTimeLeft = ROUND_INTRO_DURATION;
+        if (this.player1 && this.player2) {
+            this.camera.snapTo([this.player1.getHurtbox(), this.player2.getHurtbox()]);
         }
+        this.hud.setRoundTimer(this.getRoundTimeLeft());
+        this.hud.showRoundIntro(this.gameState.round, this.score.isFinalRound());
+    }
+
+    /**
+     * Seconds left on the round timer, or null for untimed rounds
+     */
+    private getRoundTimeLeft(): number | null {
+        if (this.rules.roundTimeLimit === null) return null;
+        return Math.max(0, this.rules.roundTimeLimit - this.gameState.roundTime);
+    }
+
+    private static createGameState(isRunning: boolean): GameState {
+        return {
+            isRunning,
+            isPaused: false,
+            winner: null,
+            roundTime: 0,
+            round: 1,
+            roundWins: { Player1: 0, Player2: 0 },
+            phase: 'intro',
+        };
     }
 
     /**
      * Show victory screen
      */
-    private showVictory(winner: PlayerId): void {
-        const winnerName = this.playerDisplayNames[winner];
-        console.log(`${winnerName} wins!`);
+    private showVictory(outcome: MatchOutcome): void {
+        console.log(outcome === 'Draw' ? 'Match drawn!' : `${this.playerDisplayNames[outcome]} wins!`);
         this.inputHandler.setEnabled(false);
-        this.matchEndCallback?.(winner);
+        this.matchEndCallback?.(outcome);
 
         // Auto restart after delay (normal mode)
         if (this.autoRestartOnVictory) {
@@ -332,38 +716,46 @@ export class GameEngine {
      * Restart the game
      */
     restart(): void {
-        if (!this.player1 || !this.player2) return;
+        if (!this.simulation) return;
 
         // Reset players
-        this.player1.reset(PLAYER1_START);
-        this.player2.reset(PLAYER2_START);
+        this.simulation.reset();
+        this.timestep.reset();
+        this.replayPlayer?.rewind();
+        this.replayedRoundRestarts = 0;
+        this.resetInputSources();
+        this.frameDataTracker?.reset();
+        this.startRecording();
 
         // Reset systems
         this.particleSystem.clear();
         this.hud.reset();
+        this.hud.setMatchRules(this.rules);
 
         // Reset game state
-        this.gameState = {
-            isRunning: true,
-            isPaused: false,
-            winner: null,
-            roundTime: 0,
-        };
+        this.score.reset();
+        this.gameState = GameEngine.createGameState(true);
+        this.startRoundIntro();
 
-        this.inputHandler.setEnabled(true);
+        this.inputHandler.setEnabled(!this.replayPlayer);
 
         console.log('Game restarted');
     }
 
     /**
      * Render the game
+     * @param alpha - Interpolation factor between the last two simulation steps
      */
-    private render(): void {
+    private render(alpha: number): void {
         // Clear canvas
         this.ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
 
         // Draw background
-        this.renderBackground();
+        this.renderBackground(alpha);
+
+        // The world follows the camera; everything from the HUD on stays fixed to the screen
+        this.ctx.save();
+        this.camera.applyTransform(this.ctx, alpha);
 
         // Draw arena
         this.renderArena();
@@ -371,80 +763,199 @@ export class GameEngine {
         // Draw particles (behind characters)
         this.particleSystem.render(this.ctx);
 
+        // Draw projectiles
+        this.simulation?.projectiles.render(this.ctx, alpha);
+
+        // Dim the arena behind the fighters while a super starts
+        const superFreeze = this.simulation?.getSuperFreeze() ?? null;
+        if (superFreeze) {
+            const view = this.camera.getViewRect(alpha);
+            this.ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+            this.ctx.fillRect(view.x, view.y, view.width, view.height);
+        }
+
         // Draw players
-        if (this.player1) this.player1.render(this.ctx);
-        if (this.player2) this.player2.render(this.ctx);
+        if (this.player1) this.player1.render(this.ctx, alpha);
+        if (this.player2) this.player2.render(this.ctx, alpha);
+
+        // Draw collision boxes over the fighters
+        if (this.hitboxOverlayVisible && this.player1 && this.player2 && this.simulation) {
+            this.hitboxOverlay.render(
+                this.ctx,
+                [this.player1, this.player2],
+                this.simulation.projectiles.getProjectiles()
+            );
+        }
+
+        this.ctx.restore();
+
+        if (superFreeze) {
+            this.renderSuperName(superFreeze);
+        }
 
         // Draw HUD
         this.hud.render(this.ctx);
 
+        // Draw replay playback status
+        if (this.replayPlayer) {
+            this.renderReplayInfo();
+        }
+
+        // Draw training settings and frame data
+        if (this.trainingOptions) {
+            this.renderTrainingPanel();
+        }
+
         // Draw victory overlay if game over
         if (this.gameState.winner) {
             this.renderVictoryOverlay();
         }
 
         // Draw debug info
-        this.renderDebugInfo();
+        if (this.debugInfoVisible) {
+            this.renderDebugInfo();
+        }
     }
 
     /**
-     * Render background gradient
+     * Render the stage sky and its parallax layers (screen space)
+     * @param alpha - Interpolation factor between the last two simulation steps
      */
-    private renderBackground(): void {
+    private renderBackground(alpha: number): void {
+        const stage = this.getStage();
+        const [top, middle, bottom] = stage.theme.skyColors;
         const gradient = this.ctx.createLinearGradient(0, 0, 0, CANVAS_HEIGHT);
-        gradient.addColorStop(0, '#1a1a2e');
-        gradient.addColorStop(0.5, '#16213e');
-        gradient.addColorStop(1, '#0f3460');
+        gradient.addColorStop(0, top);
+        gradient.addColorStop(0.5, middle);
+        gradient.addColorStop(1, bottom);
 
         this.ctx.fillStyle = gradient;
         this.ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+        stage.layers.forEach(layer => this.renderBackgroundLayer(layer, alpha));
     }
 
     /**
-     * Render arena/ground
+     * Repeat a layer's silhouettes across the screen, scrolled by a fraction of the camera pan
+     */
+    private renderBackgroundLayer(layer: StageBackgroundLayer, alpha: number): void {
+        const view = this.camera.getViewRect(alpha);
+        const zoom = this.camera.getZoom(alpha);
+        const spacing = layer.spacing * zoom;
+        const scroll = view.x * layer.scrollFactor * zoom;
+        const baseY = (layer.baseY - view.y) * zoom;
+        const firstIndex = Math.floor(scroll / spacing) - 1;
+        const count = Math.ceil(CANVAS_WIDTH / spacing) + 2;
+
+        this.ctx.fillStyle = layer.color;
+        for (let i = 0; i < count; i++) {
+            const index = firstIndex + i;
+            const x = index * spacing - scroll;
+            // Vary heights by world position so the skyline stays put while scrolling
+            const height = layer.height * zoom * (0.6 + 0.4 * (Math.abs(index * 37) % 10) / 10);
+
+            this.ctx.beginPath();
+            if (layer.shape === 'mountains') {
+                this.ctx.moveTo(x - spacing * 0.2, baseY);
+                this.ctx.lineTo(x + spacing * 0.5, baseY - height);
+                this.ctx.lineTo(x + spacing * 1.2, baseY);
+            } else if (layer.shape === 'towers') {
+                this.ctx.rect(x + spacing * 0.3, baseY - height, spacing * 0.4, height);
+            } else {
+                this.ctx.moveTo(x, baseY);
+                this.ctx.quadraticCurveTo(x + spacing / 2, baseY - height, x + spacing, baseY);
+            }
+            this.ctx.closePath();
+            this.ctx.fill();
+        }
+    }
+
+    /**
+     * Render the stage floor, walls and terrain (world space)
      */
     private renderArena(): void {
+        const stage = this.getStage();
+        const { groundY, width, walls, theme } = stage;
+
         // Ground
-        const groundGradient = this.ctx.createLinearGradient(0, GROUND_Y, 0, CANVAS_HEIGHT);
-        groundGradient.addColorStop(0, '#2d1b4e');
-        groundGradient.addColorStop(1, '#1a1a2e');
+        const groundGradient = this.ctx.createLinearGradient(0, groundY, 0, CANVAS_HEIGHT);
+        groundGradient.addColorStop(0, theme.groundColors[0]);
+        groundGradient.addColorStop(1, theme.groundColors[1]);
 
         this.ctx.fillStyle = groundGradient;
-        this.ctx.fillRect(0, GROUND_Y, CANVAS_WIDTH, CANVAS_HEIGHT - GROUND_Y);
+        this.ctx.fillRect(0, groundY, width, CANVAS_HEIGHT - groundY);
 
         // Ground line
-        this.ctx.strokeStyle = '#4ecdc4';
+        this.ctx.strokeStyle = theme.lineColor;
         this.ctx.lineWidth = 3;
-        this.ctx.shadowColor = '#4ecdc4';
+        this.ctx.shadowColor = theme.lineColor;
         this.ctx.shadowBlur = 10;
         this.ctx.beginPath();
-        this.ctx.moveTo(0, GROUND_Y);
-        this.ctx.lineTo(CANVAS_WIDTH, GROUND_Y);
+        this.ctx.moveTo(0, groundY);
+        this.ctx.lineTo(width, groundY);
         this.ctx.stroke();
         this.ctx.shadowBlur = 0;
 
-        // Arena boundaries (decorative)
-        this.ctx.strokeStyle = 'rgba(78, 205, 196, 0.3)';
+        // Walls: shade anything beyond them, then mark their faces
+        this.ctx.fillStyle = theme.wallColor;
+        this.ctx.fillRect(0, 0, walls.left, groundY);
+        this.ctx.fillRect(walls.right, 0, width - walls.right, groundY);
+
+        this.ctx.strokeStyle = theme.wallColor;
         this.ctx.lineWidth = 2;
         this.ctx.setLineDash([10, 10]);
+        [walls.left, walls.right].forEach(x => {
+            this.ctx.beginPath();
+            this.ctx.moveTo(x, groundY - 200);
+            this.ctx.lineTo(x, groundY);
+            this.ctx.stroke();
+        });
+        this.ctx.setLineDash([]);
 
-        // Left boundary
-        this.ctx.beginPath();
-        this.ctx.moveTo(50, GROUND_Y - 200);
-        this.ctx.lineTo(50, GROUND_Y);
-        this.ctx.stroke();
+        // Terrain: solid blocks filled like the ground, one-way platforms as ledges
+        stage.surfaces.forEach(surface => {
+            this.ctx.fillStyle = surface.type === 'block' ? theme.groundColors[0] : theme.wallColor;
+            this.ctx.fillRect(surface.x, surface.y, surface.width, surface.height);
+
+            this.ctx.strokeStyle = theme.lineColor;
+            this.ctx.lineWidth = 2;
+            this.ctx.beginPath();
+            if (surface.type === 'block') {
+                this.ctx.rect(surface.x, surface.y, surface.width, surface.height);
+            } else {
+                this.ctx.moveTo(surface.x, surface.y);
+                this.ctx.lineTo(surface.x + surface.width, surface.y);
+            }
+            this.ctx.stroke();
+        });
+    }
 
-        // Right boundary
-        this.ctx.beginPath();
-        this.ctx.moveTo(CANVAS_WIDTH - 50, GROUND_Y - 200);
-        this.ctx.lineTo(CANVAS_WIDTH - 50, GROUND_Y);
-        this.ctx.stroke();
+    private getStage(): StageDefinition {
+        return this.simulation?.stage ?? STAGES[DEFAULT_STAGE];
+    }
 
-        this.ctx.setLineDash([]);
+    /**
+     * Render the super move callout on its user's side of the screen
+     */
+    private renderSuperName(freeze: Readonly<SuperFreeze>): void {
+        const isPlayer1 = freeze.playerId === 'Player1';
+
+        this.ctx.save();
+        this.ctx.font = 'bold 40px Arial';
+        this.ctx.textAlign = isPlayer1 ? 'left' : 'right';
+        this.ctx.fillStyle = '#facc15';
+        this.ctx.shadowColor = isPlayer1 ? '#ff6b6b' : '#4ecdc4';
+        this.ctx.shadowBlur = 20;
+        this.ctx.fillText(
+            freeze.moveName.toUpperCase(),
+            isPlayer1 ? 60 : CANVAS_WIDTH - 60,
+            CANVAS_HEIGHT / 2 - 80
+        );
+        this.ctx.restore();
     }
 
     /**
-     * Render victory overlay
+     * Render victory overlay (or the draw result)
      */
     private renderVictoryOverlay(): void {
         // Semi-transparent overlay
@@ -456,23 +967,92 @@ export class GameEngine {
         this.ctx.fillStyle = '#ffffff';
         this.ctx.font = 'bold 48px Arial';
         this.ctx.textAlign = 'center';
-        this.ctx.shadowColor = this.gameState.winner === 'Player1' ? '#ff6b6b' : '#4ecdc4';
         this.ctx.shadowBlur = 20;
-        const winnerName = this.gameState.winner
-            ? this.playerDisplayNames[this.gameState.winner]
-            : 'Unknown';
 
-        this.ctx.fillText(
-            `${winnerName} WINS!`,
-            CANVAS_WIDTH / 2,
-            CANVAS_HEIGHT / 2
-        );
+        const outcome = this.gameState.winner;
+        if (outcome === 'Draw') {
+            const results = this.score.getResults();
+            const lastRound = results[results.length - 1];
+            this.ctx.shadowColor = '#facc15';
+            this.ctx.fillText(
+                lastRound?.reason === 'doubleKnockout' ? 'DOUBLE K.O. - DRAW' : 'DRAW',
+                CANVAS_WIDTH / 2,
+                CANVAS_HEIGHT / 2
+            );
+        } else {
+            this.ctx.shadowColor = outcome === 'Player1' ? '#ff6b6b' : '#4ecdc4';
+            const winnerName = outcome ? this.playerDisplayNames[outcome] : 'Unknown';
+
+            this.ctx.fillText(
+                `${winnerName} WINS!`,
+                CANVAS_WIDTH / 2,
+                CANVAS_HEIGHT / 2
+            );
+        }
 
         // Restart message
         this.ctx.font = '20px Arial';
         this.ctx.shadowBlur = 0;
         this.ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
         this.ctx.fillText(this.victorySubtext, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 50);
+
+        // Round score for multi-round matches
+        if (this.rules.bestOf > 1) {
+            const { Player1, Player2 } = this.gameState.roundWins;
+            this.ctx.font = 'bold 24px Arial';
+            this.ctx.fillStyle = '#facc15';
+            this.ctx.fillText(`${Player1} - ${Player2}`, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 60);
+        }
+        this.ctx.restore();
+    }
+
+    /**
+     * Render the training options and last-hit frame data
+     */
+    private renderTrainingPanel(): void {
+        if (!this.trainingOptions || !this.player1 || !this.player2) return;
+
+        this.trainingPanel.render(this.ctx, {
+            options: this.trainingOptions,
+            report: this.frameDataTracker?.getReport() ?? null,
+            isRecording: this.trainingDummy?.isRecording() ?? false,
+            recordingFrames: this.trainingDummy?.getRecordingLength() ?? 0,
+            absorbedDamageBonus: {
+                Player1: this.player1.getAbsorbedDamageBonus(),
+                Player2: this.player2.getAbsorbedDamageBonus(),
+            },
+            playerNames: this.playerDisplayNames,
+        });
+    }
+
+    /**
+     * Render replay playback status bar
+     */
+    private renderReplayInfo(): void {
+        if (!this.replayPlayer || !this.simulation) return;
+
+        const frame = Math.min(this.simulation.getFrame(), this.replayPlayer.getFrameCount());
+        let status = `${this.playbackSpeed}x`;
+        if (this.isReplayFinished()) {
+            status = 'FINISHED';
+        } else if (this.gameState.isPaused) {
+            status = 'PAUSED';
+        }
+
+        this.ctx.save();
+        this.ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+        this.ctx.fillRect(CANVAS_WIDTH / 2 - 150, 88, 300, 44);
+        this.ctx.fillStyle = '#fef08a';
+        this.ctx.font = 'bold 14px Arial';
+        this.ctx.textAlign = 'center';
+        this.ctx.fillText(
+            `REPLAY ${status} | Frame ${frame} / ${this.replayPlayer.getFrameCount()}`,
+            CANVAS_WIDTH / 2,
+            106
+        );
+        this.ctx.fillStyle = 'rgba(255, 255, 255, 0.7)';
+        this.ctx.font = '11px Arial';
+        this.ctx.fillText('P: Pause | .: Step | - / =: Speed | R: Rewind', CANVAS_WIDTH / 2, 124);
         this.ctx.restore();
     }
 
@@ -550,8 +1130,136 @@ export class GameEngine {
      * Pause/unpause the game
      */
     togglePause(): void {
-        this.gameState.isPaused = !this.gameState.isPaused;
-        console.log(this.gameState.isPaused ? 'Game paused' : 'Game resumed');
+        this.setPaused(!this.gameState.isPaused);
+    }
+
+    /**
+     * Freeze the match (simulation, particles, HUD timers) and drop gameplay input
+     */
+    setPaused(paused: boolean): void {
+        if (this.gameState.isPaused === paused) return;
+
+        this.gameState.isPaused = paused;
+        this.inputHandler.setEnabled(!paused && !this.replayPlayer && !this.gameState.winner);
+        console.log(paused ? 'Game paused' : 'Game resumed');
+    }
+
+    /**
+     * Use new key bindings for the rest of the match
+     */
+    applyKeyBindings(bindings: Record<PlayerId, KeyBindings>): void {
+        // The input handler reads the characters' binding objects, so update them in place
+        [this.player1, this.player2].forEach(character => {
+            if (character) Object.assign(character.keyBindings, bindings[character.playerId]);
+        });
+        this.refreshControlsHint();
+    }
+
+    isDebugInfoVisible(): boolean {
+        return this.debugInfoVisible;
+    }
+
+    setDebugInfoVisible(visible: boolean): void {
+        this.debugInfoVisible = visible;
+    }
+
+    isHitboxOverlayVisible(): boolean {
+        return this.hitboxOverlayVisible;
+    }
+
+    /**
+     * Show or hide hurtboxes, hitboxes, contact points and velocities
+     */
+    setHitboxOverlayVisible(visible: boolean): void {
+        this.hitboxOverlayVisible = visible;
+    }
+
+    isTrainingMode(): boolean {
+        return this.trainingOptions !== null;
+    }
+
+    getTrainingOptions(): TrainingOptions | null {
+        return this.trainingOptions ? { ...this.trainingOptions } : null;
+    }
+
+    /**
+     * Change dummy behavior or training aids mid-session
+     */
+    setTrainingOptions(options: Partial<TrainingOptions>): void {
+        if (!this.trainingOptions) return;
+
+        Object.assign(this.trainingOptions, options);
+        if (options.dummyBehavior) {
+            this.trainingDummy?.setBehavior(options.dummyBehavior);
+        }
+    }
+
+    /**
+     * Start recording the player's moves for the dummy, or stop and play them back
+     */
+    toggleTrainingRecording(): void {
+        if (!this.trainingDummy || !this.trainingOptions) return;
+
+        if (this.trainingDummy.isRecording()) {
+            this.trainingDummy.stopRecording();
+            this.trainingOptions.dummyBehavior = this.trainingDummy.getBehavior();
+        } else {
+            this.trainingDummy.startRecording();
+        }
+    }
+
+    /**
+     * Check whether the engine is playing back a replay
+     */
+    isReplayPlayback(): boolean {
+        return this.replayPlayer !== null;
+    }
+
+    /**
+     * Replay of the current (or most recent) live match
+     */
+    getLastReplay(): ReplayData | null {
+        return this.recorder?.toReplay() ?? null;
+    }
+
+    /**
+     * Step through playback speeds (0.25x - 4x)
+     */
+    changePlaybackSpeed(direction: 1 | -1): void {
+        if (!this.replayPlayer) return;
+
+        const speeds = REPLAY_PLAYBACK_SPEEDS;
+        const currentIndex = speeds.findIndex(speed => speed === this.playbackSpeed);
+        const nextIndex = Math.min(speeds.length - 1, Math.max(0, currentIndex + direction));
+        this.playbackSpeed = speeds[nextIndex] ?? 1;
+    }
+
+    /**
+     * Advance a paused replay by exactly one simulation step
+     */
+    stepPlaybackFrame(): void {
+        if (!this.replayPlayer || !this.gameState.isPaused || this.isReplayFinished()) return;
+        this.update();
+    }
+
+    private isReplayFinished(): boolean {
+        return (
+            this.replayPlayer !== null &&
+            this.simulation !== null &&
+            this.simulation.getFrame() >= this.replayPlayer.getFrameCount()
+        );
+    }
+
+    private startRecording(): void {
+        this.recorder = this.replayPlayer || this.trainingOptions
+            ? null
+            : new ReplayRecorder({
+                seed: this.seed,
+                selection: { ...this.selection },
+                playerDisplayNames: { ...this.playerDisplayNames },
+                rules: { ...this.rules },
+                stage: this.getStage().id,
+            });
     }
 
     /**
@@ -0,0 +1,246 @@
+/**
+ * Game Simulation
+ * Deterministic fixed-step match core, independent from rendering and the DOM
+ */
+
+import type { Character } from '../entities/Character';
+import type { IObserver } from '../patterns/observer/Observer';
+import { CharacterFactory } from '../patterns/factory/CharacterFactory';
+import { CollisionSystem } from '../systems/CollisionSystem';
+import { ProjectileSystem } from '../systems/ProjectileSystem';
+import { SeededRandom } from './SeededRandom';
+import type {
+    CharacterEvent,
+    KeyBindings,
+    MatchCharacterSelection,
+    MatchOutcome,
+    PlayerId,
+    RoundResult,
+    StageDefinition,
+    StageId,
+    SuperFreeze
+} from '../types';
+import {
+    CHARACTER_HEIGHT,
+    DEFAULT_STAGE,
+    FIXED_DELTA_SECONDS,
+    HITSTOP_BASE_FRAMES,
+    HITSTOP_FRAMES_PER_DAMAGE,
+    HITSTOP_MAX_FRAMES,
+    STAGES,
+    SUPER_FREEZE_FRAMES
+} from '../constants/GameConfig';
+
+export class GameSimulation {
+    readonly player1: Character;
+    readonly player2: Character;
+    readonly random: SeededRandom;
+    readonly stage: StageDefinition;
+    readonly projectiles: ProjectileSystem;
+
+    private frame = 0;
+    private roundStartFrame = 0;
+    private superFreeze: SuperFreeze | null = null;
+    private hitstopFrames = 0;
+
+    // Any hit or blocked hit freezes both fighters for a moment (Observer pattern)
+    private readonly impactObserver: IObserver<CharacterEvent> = {
+        update: event => {
+            if ('currentHealth' in event && event.damage > 0) {
+                this.startHitstop(event.damage);
+            }
+        },
+    };
+
+    constructor(
+        selection: MatchCharacterSelection,
+        seed: number = 0,
+        keyBindings?: Partial<Record<PlayerId, KeyBindings>>,
+        stageId: StageId = DEFAULT_STAGE
+    ) {
+        this.random = new SeededRandom(seed);
+        this.stage = STAGES[stageId];
+        this.projectiles = new ProjectileSystem(this.stage.width);
+        [this.player1, this.player2] = CharacterFactory.createMatchPlayers(
+            selection.Player1,
+            selection.Player2,
+            keyBindings
+        );
+        this.player1.setProjectileSystem(this.projectiles);
+        this.player2.setProjectileSystem(this.projectiles);
+        this.player1.setStage(this.stage);
+        this.player2.setStage(this.stage);
+        this.resetRound();
+        this.player1.attach(this.impactObserver);
+        this.player2.attach(this.impactObserver);
+    }
+
+    /**
+     * Advance the match by exactly one fixed timestep.
+     * Identical inputs applied before each step always produce identical results.
+     */
+    step(): void {
+        // Keep last positions for render interpolation
+        this.player1.savePreviousPosition();
+        this.player2.savePreviousPosition();
+
+        // Super freeze: nothing moves and the round clock stops, but frames
+        // keep counting so replays stay aligned with their input stream
+        if (this.superFreeze) {
+            this.superFreeze.framesLeft--;
+            if (this.superFreeze.framesLeft <= 0) {
+                this.superFreeze = null;
+            }
+            this.roundStartFrame++;
+            this.frame++;
+            return;
+        }
+
+        // Hitstop: characters and projectiles hold still while the clock runs on
+        if (this.hitstopFrames > 0) {
+            this.hitstopFrames--;
+            this.frame++;
+            return;
+        }
+
+        this.player1.update(FIXED_DELTA_SECONDS);
+        this.checkSuperStart(this.player1);
+        this.player2.update(FIXED_DELTA_SECONDS);
+        this.checkSuperStart(this.player2);
+        this.projectiles.update(FIXED_DELTA_SECONDS, [this.player1, this.player2]);
+
+        // Resolve character-to-character collision, then keep both within camera reach
+        CollisionSystem.resolveCharacterCollision(this.player1, this.player2);
+        CollisionSystem.enforceMaxDistance(this.player1, this.player2, this.stage.maxPlayerDistance);
+
+        this.frame++;
+    }
+
+    /**
+     * Freeze the fight when a character just started a cinematic super
+     */
+    private checkSuperStart(character: Character): void {
+        const moveName = character.consumeCinematicStart();
+        if (moveName && !this.superFreeze) {
+            this.superFreeze = { playerId: character.playerId, moveName, framesLeft: SUPER_FREEZE_FRAMES };
+        }
+    }
+
+    /**
+     * Heavier hits freeze longer; a second hit during hitstop never shortens it
+     */
+    private startHitstop(damage: number): void {
+        const frames = Math.min(
+            HITSTOP_MAX_FRAMES,
+            HITSTOP_BASE_FRAMES + Math.round(damage * HITSTOP_FRAMES_PER_DAMAGE)
+        );
+        this.hitstopFrames = Math.max(this.hitstopFrames, frames);
+    }
+
+    /**
+     * Frames of hitstop left (0 while the fight runs normally)
+     */
+    getHitstopFrames(): number {
+        return this.hitstopFrames;
+    }
+
+    /**
+     * Active super freeze, or null while the fight runs normally
+     */
+    getSuperFreeze(): Readonly<SuperFreeze> | null {
+        return this.superFreeze;
+    }
+
+    /**
+     * Winner by knockout ('Draw' when both fall on the same frame),
+     * or null while both characters are standing
+     */
+    getKnockoutOutcome(): MatchOutcome | null {
+        const player1Down = this.player1.isDefeated();
+        const player2Down = this.player2.isDefeated();
+
+        if (player1Down && player2Down) {
+            return 'Draw';
+        }
+        if (player1Down) {
+            return 'Player2';
+        }
+        if (player2Down) {
+            return 'Player1';
+        }
+        return null;
+    }
+
+    /**
+     * How the current round ended, or null while it is still being fought.
+     * A time-out goes to the higher health percentage; equal health is a draw.
+     * @param timeLimit - Round length in seconds, or null for no time limit
+     */
+    getRoundResult(round: number, timeLimit: number | null): RoundResult | null {
+        const knockout = this.getKnockoutOutcome();
+        if (knockout === 'Draw') {
+            return { round, winner: null, reason: 'doubleKnockout' };
+        }
+        if (knockout) {
+            return { round, winner: knockout, reason: 'knockout' };
+        }
+
+        const roundFrames = this.frame - this.roundStartFrame;
+        if (timeLimit === null || roundFrames < Math.round(timeLimit / FIXED_DELTA_SECONDS)) {
+            return null;
+        }
+
+        const player1Share = this.player1.health / this.player1.maxHealth;
+        const player2Share = this.player2.health / this.player2.maxHealth;
+        let winner: PlayerId | null = null;
+        if (player1Share !== player2Share) {
+            winner = player1Share > player2Share ? 'Player1' : 'Player2';
+        }
+        return { round, winner, reason: 'timeout' };
+    }
+
+    /**
+     * Put both characters back at their starting positions
+     */
+    reset(): void {
+        this.resetRound();
+        this.random.reset();
+        this.frame = 0;
+        this.roundStartFrame = 0;
+    }
+
+    /**
+     * Start a new round: characters and projectiles reset, while the frame
+     * counter and RNG carry on so a whole match stays one replayable stream
+     */
+    resetRound(): void {
+        const y = this.stage.groundY - CHARACTER_HEIGHT;
+        this.player1.reset({ x: this.stage.startX.Player1, y });
+        this.player2.reset({ x: this.stage.startX.Player2, y });
+        this.projectiles.clear();
+        this.superFreeze = null;
+        this.hitstopFrames = 0;
+        this.roundStartFrame = this.frame;
+    }
+
+    /**
+     * Number of fixed steps simulated since the last reset
+     */
+    getFrame(): number {
+        return this.frame;
+    }
+
+    /**
+     * Simulated time since the last reset in seconds
+     */
+    getElapsedTime(): number {
+        return this.frame * FIXED_DELTA_SECONDS;
+    }
+
+    /**
+     * Simulated time since the current round started in seconds
+     */
+    getRoundTime(): number {
+        return (this.frame - this.roundStartFrame) * FIXED_DELTA_SECONDS;
+    }
+}
@@ -0,0 +1,77 @@
+/**
+ * Match Score
+ * Tracks round wins of a best-of-N match under the chosen match rules
+ */
+
+import type { MatchOutcome, MatchRules, PlayerId, RoundResult } from '../types';
+
+export class MatchScore {
+    private wins: Record<PlayerId, number> = { Player1: 0, Player2: 0 };
+    private results: RoundResult[] = [];
+
+    constructor(readonly rules: MatchRules) { }
+
+    /**
+     * Round wins needed to take the match
+     */
+    getRoundsToWin(): number {
+        return Math.ceil(this.rules.bestOf / 2);
+    }
+
+    /**
+     * Number of the round being played (or about to be played)
+     */
+    getRound(): number {
+        return this.results.length + 1;
+    }
+
+    getWins(): Record<PlayerId, number> {
+        return { ...this.wins };
+    }
+
+    getResults(): RoundResult[] {
+        return [...this.results];
+    }
+
+    /**
+     * Count a finished round. A drawn round is a win for both players.
+     */
+    recordRound(result: RoundResult): void {
+        this.results.push({ ...result });
+        if (result.winner) {
+            this.wins[result.winner]++;
+            return;
+        }
+        this.wins.Player1++;
+        this.wins.Player2++;
+    }
+
+    /**
+     * Player who has won enough rounds ('Draw' if both got there on the same
+     * round), or null while the match goes on
+     */
+    getMatchOutcome(): MatchOutcome | null {
+        const roundsToWin = this.getRoundsToWin();
+        const player1Won = this.wins.Player1 >= roundsToWin;
+        const player2Won = this.wins.Player2 >= roundsToWin;
+
+        if (player1Won && player2Won) return 'Draw';
+        if (player1Won) return 'Player1';
+        if (player2Won) return 'Player2';
+        return null;
+    }
+
+    /**
+     * Whether the next round is the last one: true only when both players
+     * are one win away from the match (not when just one of them is)
+     */
+    isFinalRound(): boolean {
+        const oneWinAway = this.getRoundsToWin() - 1;
+        return this.wins.Player1 === oneWinAway && this.wins.Player2 === oneWinAway && oneWinAway > 0;
+    }
+
+    reset(): void {
+        this.wins = { Player1: 0, Player2: 0 };
+        this.results = [];
+    }
+}
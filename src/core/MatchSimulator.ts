@@ -0,0 +1,230 @@
+/**
+ * Match Simulator
+ * Plays whole matches headlessly (no canvas, no requestAnimationFrame),
+ * driving both characters from scripted per-frame inputs
+ */
+
+import type { Character } from '../entities/Character';
+import type { IObserver } from '../patterns/observer/Observer';
+import { AIController } from '../systems/AIController';
+import { InputStateTranslator } from '../systems/InputStateTranslator';
+import { ReplayPlayer } from '../systems/ReplaySystem';
+import { GameSimulation } from './GameSimulation';
+import { MatchScore } from './MatchScore';
+import type {
+    CharacterEvent,
+    CpuDifficulty,
+    InputState,
+    MatchCharacterSelection,
+    MatchEvent,
+    MatchResult,
+    MatchRules,
+    PlayerId,
+    ReplayData,
+    StageId
+} from '../types';
+import { DEFAULT_STAGE, HEADLESS_MATCH_FRAME_LIMIT, SINGLE_ROUND_RULES } from '../constants/GameConfig';
+
+/**
+ * Scripted input for one player: a frame-indexed list (neutral after it ends)
+ * or a function queried every frame
+ */
+export type PlayerInputScript =
+    | ReadonlyArray<Partial<InputState>>
+    | ((frame: number, self: Character, opponent: Character) => Partial<InputState>);
+
+export interface MatchSimulatorOptions {
+    selection?: MatchCharacterSelection;
+    inputs?: Partial<Record<PlayerId, PlayerInputScript>>;
+    /** Players driven by a CPU opponent instead of a script */
+    cpu?: Partial<Record<PlayerId, CpuDifficulty>>;
+    /** Drive both players from a recorded replay instead of scripts */
+    replay?: ReplayData;
+    /** Rounds and timer (defaults to a single untimed round) */
+    rules?: MatchRules;
+    /** Stage to fight on (replays bring their own) */
+    stage?: StageId;
+    seed?: number;
+    maxFrames?: number;
+}
+
+export class MatchSimulator implements IObserver<CharacterEvent> {
+    private readonly simulation: GameSimulation;
+    private readonly inputs: Partial<Record<PlayerId, PlayerInputScript>>;
+    private readonly maxFrames: number;
+    private readonly rules: MatchRules;
+    private readonly replayPlayer: ReplayPlayer | null;
+    private readonly cpuControllers: Partial<Record<PlayerId, AIController>> = {};
+    private readonly translators: Record<PlayerId, InputStateTranslator> = {
+        Player1: new InputStateTranslator(),
+        Player2: new InputStateTranslator(),
+    };
+    private events: MatchEvent[] = [];
+
+    constructor(options: MatchSimulatorOptions = {}) {
+        this.simulation = new GameSimulation(
+            options.replay?.selection ?? options.selection ?? { Player1: 'Fighter', Player2: 'Fighter' },
+            options.replay?.seed ?? options.seed ?? 0,
+            undefined,
+            (options.replay ? options.replay.stage : options.stage) ?? DEFAULT_STAGE
+        );
+        this.replayPlayer = options.replay ? new ReplayPlayer(options.replay) : null;
+        this.inputs = options.inputs ?? {};
+        this.maxFrames = options.maxFrames ?? HEADLESS_MATCH_FRAME_LIMIT;
+        this.rules = (options.replay ? options.replay.rules : options.rules) ?? SINGLE_ROUND_RULES;
+
+        (['Player1', 'Player2'] as const).forEach(playerId => {
+            const difficulty = options.cpu?.[playerId];
+            if (difficulty) {
+                this.cpuControllers[playerId] = new AIController(difficulty, this.simulation.random);
+            }
+        });
+
+        // Observe both characters to build the event log
+        this.simulation.player1.attach(this);
+        this.simulation.player2.attach(this);
+    }
+
+    /**
+     * Run until a player has won enough rounds, or the frame limit
+     */
+    run(): MatchResult {
+        const score = new MatchScore(this.rules);
+        let replayedRestarts = 0;
+
+        while (this.simulation.getFrame() < this.maxFrames) {
+            if (this.replayPlayer) {
+                // Rounds restarted from the pause menu start over at the same frame
+                while (this.replayPlayer.getRoundRestartFrame(replayedRestarts) === this.simulation.getFrame()) {
+                    replayedRestarts++;
+                    this.resetRound();
+                }
+                this.replayPlayer.applyFrame(
+                    this.simulation.getFrame(),
+                    this.simulation.player1,
+                    this.simulation.player2
+                );
+            } else {
+                this.applyInputs('Player1', this.simulation.player1, this.simulation.player2);
+                this.applyInputs('Player2', this.simulation.player2, this.simulation.player1);
+            }
+            this.simulation.step();
+
+            const round = this.simulation.getRoundResult(score.getRound(), this.rules.roundTimeLimit);
+            if (!round) continue;
+
+            score.recordRound(round);
+            this.recordKnockouts();
+
+            if (score.getMatchOutcome()) break;
+            this.resetRound();
+        }
+
+        return {
+            winner: score.getMatchOutcome(),
+            finalHealth: {
+                Player1: this.simulation.player1.health,
+                Player2: this.simulation.player2.health,
+            },
+            frames: this.simulation.getFrame(),
+            events: [...this.events],
+            rounds: score.getResults(),
+        };
+    }
+
+    /**
+     * Get the underlying simulation (for inspecting characters mid-test)
+     */
+    getSimulation(): GameSimulation {
+        return this.simulation;
+    }
+
+    /**
+     * Observer update - log damage, finished combos and mode switches with the current frame
+     */
+    update(data: CharacterEvent): void {
+        const frame = this.simulation.getFrame();
+
+        if ('currentHealth' in data) {
+            if (data.damage > 0) {
+                this.events.push({
+                    frame,
+                    type: 'damage',
+                    playerId: data.playerId,
+                    damage: data.damage,
+                    health: data.currentHealth,
+                });
+            }
+            return;
+        }
+
+        if ('hits' in data) {
+            if (data.finished) {
+                this.events.push({
+                    frame,
+                    type: 'combo',
+                    playerId: data.playerId,
+                    hits: data.hits,
+                    damage: data.damage,
+                });
+            }
+            return;
+        }
+
+        if ('meter' in data) {
+            return;
+        }
+
+        this.events.push({
+            frame,
+            type: 'modeChange',
+            playerId: data.playerId,
+            mode: data.newMode,
+        });
+    }
+
+    /**
+     * Characters forget held input when reset, so the translators and CPU
+     * controllers feeding them must forget it too (held input is sent again)
+     */
+    private resetRound(): void {
+        this.simulation.resetRound();
+        this.replayPlayer?.rewind();
+        this.translators.Player1.reset();
+        this.translators.Player2.reset();
+        this.cpuControllers.Player1?.reset();
+        this.cpuControllers.Player2?.reset();
+    }
+
+    /**
+     * Log a knockout event for every character down at the end of the round
+     */
+    private recordKnockouts(): void {
+        [this.simulation.player1, this.simulation.player2].forEach(character => {
+            if (!character.isDefeated()) return;
+            this.events.push({
+                frame: this.simulation.getFrame(),
+                type: 'knockout',
+                playerId: character.playerId,
+            });
+        });
+    }
+
+    private applyInputs(playerId: PlayerId, self: Character, opponent: Character): void {
+        const cpuController = this.cpuControllers[playerId];
+        if (cpuController) {
+            cpuController.getCommands(self, opponent).forEach(command => command.execute(self));
+            return;
+        }
+
+        const script = this.inputs[playerId];
+        if (!script) return;
+
+        const frame = this.simulation.getFrame();
+        const input = typeof script === 'function'
+            ? script(frame, self, opponent)
+            : script[frame] ?? {};
+
+        this.translators[playerId].toCommands(input).forEach(command => command.execute(self));
+    }
+}
@@ -0,0 +1,44 @@
+/**
+ * Seeded Random
+ * Small deterministic PRNG (mulberry32) so simulation randomness can be replayed
+ */
+
+export class SeededRandom {
+    private state: number;
+
+    constructor(readonly seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    /**
+     * Next float in [0, 1)
+     */
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /**
+     * Next integer in [min, max]
+     */
+    nextInt(min: number, max: number): number {
+        return min + Math.floor(this.next() * (max - min + 1));
+    }
+
+    /**
+     * Restart the sequence from the original seed
+     */
+    reset(): void {
+        this.state = this.seed >>> 0;
+    }
+
+    /**
+     * Create a fresh seed from the platform RNG
+     */
+    static createSeed(): number {
+        return Math.floor(Math.random() * 4294967296);
+    }
+}
@@ -4,34 +4,81 @@
  */
 
 import type {
+    AerialAttackProfile,
     PlayerId,
     CharacterType,
     ElementalMode,
     Vector2,
     KeyBindings,
     Rectangle,
+    CharacterEvent,
+    ComboEvent,
+    DashDirection,
     HealthChangeEvent,
+    MeterChangeEvent,
     ModeChangeEvent,
-    AttackResult
+    AttackResult,
+    HitOutcome,
+    ParticleType,
+    ProjectileProfile,
+    SpecialMoveDefinition,
+    StageDefinition,
+    StageSurface
 } from '../types';
 import type { IElementalMode } from '../patterns/strategy/IElementalMode';
 import type { ICharacterState } from '../patterns/state/ICharacterState';
-import { IdleState, MoveState, AttackState, HitState } from '../patterns/state';
+import {
+    IdleState,
+    MoveState,
+    AttackState,
+    HitState,
+    BlockState,
+    SpecialMoveState,
+    ThrowState,
+    CrouchState,
+    DashState
+} from '../patterns/state';
 import { Subject } from '../patterns/observer/Observer';
 import { Hitbox } from './Hitbox';
+import { CollisionSystem } from '../systems/CollisionSystem';
+import { InputBuffer } from '../systems/InputBuffer';
+import { applyElementalMatchup } from '../systems/ElementalAdvantage';
+import type { ProjectileSystem } from '../systems/ProjectileSystem';
 import {
     ABSORBED_DAMAGE_BONUS_CAP,
     CHARACTER_WIDTH,
     CHARACTER_HEIGHT,
+    CROUCH_HEIGHT,
+    CROUCH_ATTACK_HEIGHT_MULTIPLIER,
     CHARACTER_SPEED,
-    GROUND_Y,
+    DEFAULT_STAGE,
     GRAVITY,
     JUMP_FORCE,
     MAX_HEALTH,
+    PLATFORM_DROP_DISTANCE,
     ATTACK_COOLDOWN,
     ATTACK_WIDTH,
     ATTACK_HEIGHT,
-    CANVAS_WIDTH
+    BLOCK_CHIP_DAMAGE_MULTIPLIER,
+    BLOCK_KNOCKBACK_MULTIPLIER,
+    BLOCK_STUN_MULTIPLIER,
+    COMBO_DAMAGE_SCALING_PER_HIT,
+    COMBO_MIN_DAMAGE_SCALING,
+    EX_ATTACK_METER_COST,
+    EX_ATTACK_MULTIPLIERS,
+    METER_GAIN_PER_DAMAGE_DEALT,
+    METER_GAIN_PER_DAMAGE_TAKEN,
+    METER_GAIN_TIMED_SWITCH,
+    SUPER_METER_MAX,
+    STAGES,
+    FIXED_TIMESTEP,
+    THROW_ANIMATION_FRAMES,
+    THROW_DAMAGE,
+    THROW_HIT_STUN,
+    THROW_KNOCKBACK,
+    THROW_RANGE,
+    THROW_TECH_PUSHBACK,
+    THROW_TECH_WINDOW_FRAMES
 } from '../constants/GameConfig';
 
 /**
@@ -43,6 +90,8 @@ export interface InputFlags {
     up: boolean;
     down: boolean;
     attack: boolean;
+    block: boolean;
+    throw: boolean;
     moving: boolean;
 }
 
@@ -52,8 +101,13 @@ export interface InputFlags {
 export interface CharacterStates {
     idle: ICharacterState;
     move: ICharacterState;
+    crouch: ICharacterState;
     attack: ICharacterState;
     hit: ICharacterState;
+    block: BlockState;
+    special: ICharacterState;
+    throw: ThrowState;
+    dash: ICharacterState;
 }
 
 /**
@@ -61,7 +115,7 @@ export interface CharacterStates {
  * Implements Strategy pattern for elemental modes
  * Implements State pattern for behavior management
  */
-export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
+export class Character extends Subject<CharacterEvent> {
     // Identity
     readonly playerId: PlayerId;
     readonly characterType: CharacterType;
@@ -69,6 +123,7 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
 
     // Transform
     position: Vector2;
+    previousPosition: Vector2;
     velocity: Vector2 = { x: 0, y: 0 };
     readonly width = CHARACTER_WIDTH;
     readonly height = CHARACTER_HEIGHT;
@@ -81,11 +136,35 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
     isAttacking = false;
     isHitStunned = false;
     lastHitStun = 0;
+    isBlocking = false;
+    lastBlockStun = 0;
+    /** Special move recognised by a state transition, started by SpecialMoveState */
+    pendingSpecialMove: SpecialMoveDefinition | null = null;
+    private activeSpecialMove: SpecialMoveDefinition | null = null;
+    /** Jumping normal or air dash in progress, replacing the ground attack hitbox */
+    private activeAerialAttack: AerialAttackProfile | null = null;
     private attackHitbox: Hitbox | null = null;
     private absorbedDamageBonus = 0;
+    // Combo being landed on this character (hits taken without leaving hitstun)
+    private comboHits = 0;
+    private comboDamage = 0;
+    // Super meter, spent on EX attacks and super moves
+    private meter = 0;
+    readonly maxMeter = SUPER_METER_MAX;
+    /** Current normal attack is the meter-powered EX version */
+    isExAttack = false;
+    private pendingCinematic: string | null = null;
+    /** Dash recognised by a state transition, started by DashState */
+    private pendingDash: DashDirection | null = null;
+    /** Backdash startup: attacks and throws pass through */
+    isInvulnerable = false;
 
     // Physics
     isGrounded = true;
+    /** Ducking: shorter hurtbox, low attacks and a low guard */
+    isCrouching = false;
+    // One air dash per jump
+    private airDashUsed = false;
 
     // Strategy Pattern: Current elemental mode
     private elementalMode: IElementalMode;
@@ -103,27 +182,44 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
         up: false,
         down: false,
         attack: false,
+        block: false,
+        throw: false,
         moving: false,
     };
 
+    // Recent input history for buffered attacks and motion inputs
+    readonly inputBuffer = new InputBuffer();
+    readonly specialMoves: readonly SpecialMoveDefinition[];
+
     // Reference to opponent for hit detection
     private opponent: Character | null = null;
 
+    // Where ranged attacks are launched
+    private projectileSystem: ProjectileSystem | null = null;
+
+    // Floor, walls and terrain of the stage being fought on
+    private stage: StageDefinition = STAGES[DEFAULT_STAGE];
+    // Platform or block under the feet (null on the floor or in the air)
+    private standingOn: StageSurface | null = null;
+
     constructor(
         playerId: PlayerId,
         characterType: CharacterType,
         position: Vector2,
         keyBindings: KeyBindings,
         facingRight: boolean,
-        modes: [IElementalMode, IElementalMode]
+        modes: [IElementalMode, IElementalMode],
+        specialMoves: readonly SpecialMoveDefinition[] = []
     ) {
         super();
 
         this.playerId = playerId;
         this.characterType = characterType;
         this.position = { ...position };
+        this.previousPosition = { ...position };
         this.keyBindings = keyBindings;
         this.facingRight = facingRight;
+        this.specialMoves = specialMoves;
 
         // Initialize strategies (Strategy Pattern)
         this.modeStrategies = modes;
@@ -133,8 +229,13 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
         this.states = {
             idle: new IdleState(),
             move: new MoveState(),
+            crouch: new CrouchState(),
             attack: new AttackState(),
             hit: new HitState(),
+            block: new BlockState(),
+            special: new SpecialMoveState(),
+            throw: new ThrowState(),
+            dash: new DashState(),
         };
         this.currentState = this.states.idle;
         this.currentState.enter(this);
@@ -147,10 +248,31 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
         this.opponent = opponent;
     }
 
+    /**
+     * Set the system that receives this character's projectiles
+     */
+    setProjectileSystem(projectileSystem: ProjectileSystem): void {
+        this.projectileSystem = projectileSystem;
+    }
+
+    /**
+     * Set the stage whose floor and walls hold this character
+     */
+    setStage(stage: StageDefinition): void {
+        this.stage = stage;
+    }
+
+    getStage(): StageDefinition {
+        return this.stage;
+    }
+
     /**
      * Update character logic
      */
     update(deltaTime: number): void {
+        // Remember this frame's input before states read it
+        this.inputBuffer.record(this.inputFlags, this.isOpponentOnRight());
+
         // Update cooldowns
         if (this.attackCooldownTimer > 0) {
             this.attackCooldownTimer -= deltaTime * 1000;
@@ -164,6 +286,36 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
         if (newState) {
             this.transitionTo(newState);
         }
+
+        // Jumping from a crouch on a one-way platform drops through it. Done after
+        // this step's landing check so the next step starts falling from below its top.
+        if (this.currentState === this.states.crouch && this.inputFlags.up) {
+            this.dropThroughPlatform();
+        }
+
+        // A combo ends once the character recovers from hitstun
+        if (this.comboHits > 0 && !this.isHitStunned) {
+            this.endCombo();
+        }
+    }
+
+    /**
+     * Remember the current position before a simulation step
+     */
+    savePreviousPosition(): void {
+        this.previousPosition.x = this.position.x;
+        this.previousPosition.y = this.position.y;
+    }
+
+    /**
+     * Position blended between the last two simulation steps
+     * @param alpha - Fraction of the next step already elapsed (0..1)
+     */
+    getRenderPosition(alpha: number): Vector2 {
+        return {
+            x: this.previousPosition.x + (this.position.x - this.previousPosition.x) * alpha,
+            y: this.previousPosition.y + (this.position.y - this.previousPosition.y) * alpha,
+        };
     }
 
     /**
@@ -183,6 +335,11 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
 
         const nextIndex = (this.currentModeIndex + 1) % this.modeStrategies.length;
         this.setMode(nextIndex, true);
+
+        // Reading the opponent's attack with a switch is rewarded
+        if (this.opponent?.isAttacking) {
+            this.gainMeter(METER_GAIN_TIMED_SWITCH);
+        }
     }
 
     private setMode(modeIndex: number, notifyObservers: boolean): void {
@@ -205,6 +362,13 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
         return this.elementalMode;
     }
 
+    /**
+     * Get both elemental modes available to this character
+     */
+    getAvailableModes(): readonly [IElementalMode, IElementalMode] {
+        return this.modeStrategies;
+    }
+
     /**
      * Get current mode name
      */
@@ -250,33 +414,51 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
     }
 
     /**
-     * Check ground collision
+     * Check ground collision: the stage floor, then its platforms and blocks
      */
     checkGroundCollision(): void {
-        const groundLevel = GROUND_Y - this.height;
+        const groundLevel = this.stage.groundY - this.height;
+        const onFloor = this.position.y >= groundLevel;
 
-        if (this.position.y >= groundLevel) {
+        if (onFloor) {
             this.position.y = groundLevel;
             this.velocity.y = 0;
-            this.isGrounded = true;
-        } else {
-            this.isGrounded = false;
         }
+
+        this.standingOn = CollisionSystem.resolveTerrain(this, this.stage.surfaces);
+        this.isGrounded = onFloor || this.standingOn !== null;
+        if (this.isGrounded) {
+            this.airDashUsed = false;
+        }
+    }
+
+    /**
+     * Start falling through the one-way platform underfoot, if there is one
+     */
+    private dropThroughPlatform(): void {
+        if (this.standingOn?.type !== 'platform') return;
+
+        // Starting below the top face keeps the landing check from catching it again
+        this.position.y += PLATFORM_DROP_DISTANCE;
+        this.isGrounded = false;
+        this.standingOn = null;
     }
 
     /**
-     * Check screen boundaries
+     * Keep the character between the stage walls
      */
     checkBoundaries(): void {
-        // Left boundary
-        if (this.position.x < 0) {
-            this.position.x = 0;
+        const { left, right } = this.stage.walls;
+
+        // Left wall
+        if (this.position.x < left) {
+            this.position.x = left;
             this.velocity.x = 0;
         }
 
-        // Right boundary
-        if (this.position.x + this.width > CANVAS_WIDTH) {
-            this.position.x = CANVAS_WIDTH - this.width;
+        // Right wall
+        if (this.position.x + this.width > right) {
+            this.position.x = right - this.width;
             this.velocity.x = 0;
         }
     }
@@ -288,6 +470,337 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
         return this.attackCooldownTimer <= 0 && !this.isHitStunned;
     }
 
+    /**
+     * Clear the attack cooldown (training mode)
+     */
+    resetAttackCooldown(): void {
+        this.attackCooldownTimer = 0;
+    }
+
+    /**
+     * Free to act: not attacking, stunned (hit or guard) or cooling down
+     */
+    isActionable(): boolean {
+        return !this.isAttacking && !this.isHitStunned && !this.isInBlockStun() && this.canAttack();
+    }
+
+    private isInBlockStun(): boolean {
+        return this.currentState === this.states.block && this.states.block.isInBlockStun();
+    }
+
+    /**
+     * Remaining attack cooldown in milliseconds
+     */
+    getAttackCooldownRemaining(): number {
+        return Math.max(0, this.attackCooldownTimer);
+    }
+
+    /**
+     * Attack held right now, or pressed within the input buffer window
+     */
+    isAttackRequested(): boolean {
+        return this.inputFlags.attack || this.inputBuffer.wasPressed('attack');
+    }
+
+    /**
+     * Throw pressed within the input buffer window (holding it does not repeat)
+     */
+    isThrowRequested(): boolean {
+        return this.inputBuffer.wasPressed('throw');
+    }
+
+    /**
+     * Throws start from the ground and share the attack cooldown
+     */
+    canThrow(): boolean {
+        return this.isGrounded && this.canAttack();
+    }
+
+    /**
+     * Queue a dash from a double tap of forward or back. In the air it needs a
+     * mode that can air dash and one not already spent on this jump.
+     * @returns Whether a dash is now pending
+     */
+    queueDash(): boolean {
+        const direction = this.inputBuffer.matchDoubleTap();
+        if (!direction) return false;
+        if (!this.isGrounded && (this.airDashUsed || this.elementalMode.dash.airDashDistance <= 0)) {
+            return false;
+        }
+
+        this.pendingDash = direction;
+        return true;
+    }
+
+    /**
+     * Take the pending dash as it starts (called by DashState)
+     */
+    startDash(): DashDirection {
+        const direction = this.pendingDash ?? 'forward';
+        this.pendingDash = null;
+        if (!this.isGrounded) {
+            this.airDashUsed = true;
+        }
+        return direction;
+    }
+
+    /**
+     * Queue a special move whose motion was just completed in the current mode.
+     * The button press that finished it is consumed.
+     * @returns Whether a special move is now pending
+     */
+    queueSpecialMove(): boolean {
+        if (this.isHitStunned || !this.isGrounded) return false;
+
+        const available = this.specialMoves.filter(
+            move => (move.mode === undefined || move.mode === this.elementalMode.name) &&
+                (move.meterCost ?? 0) <= this.meter
+        );
+        const match = this.inputBuffer.matchMotion(available);
+        if (!match) return false;
+
+        this.inputBuffer.consume(match.button);
+        this.pendingSpecialMove = match;
+        return true;
+    }
+
+    /**
+     * Special move being performed, if any
+     */
+    getActiveSpecialMove(): SpecialMoveDefinition | null {
+        return this.activeSpecialMove;
+    }
+
+    /**
+     * Begin the pending special move
+     * @returns The move that was started
+     */
+    startSpecialMove(): SpecialMoveDefinition | null {
+        const move = this.pendingSpecialMove;
+        this.pendingSpecialMove = null;
+        if (move?.meterCost && !this.spendMeter(move.meterCost)) {
+            this.activeSpecialMove = null;
+            return null;
+        }
+
+        this.activeSpecialMove = move;
+        this.pendingCinematic = move?.cinematic ? move.name : null;
+        return move;
+    }
+
+    /**
+     * Name of the cinematic super started since the last call, or null (the
+     * simulation freezes the fight for it)
+     */
+    consumeCinematicStart(): string | null {
+        const moveName = this.pendingCinematic;
+        this.pendingCinematic = null;
+        return moveName;
+    }
+
+    /**
+     * End the active special move and remove its hitbox
+     */
+    endSpecialMove(): void {
+        this.activeSpecialMove = null;
+        this.removeAttackHitbox();
+    }
+
+    /**
+     * Place the special move hitbox in front of the character
+     */
+    updateSpecialMoveHitbox(): void {
+        const move = this.activeSpecialMove;
+        if (!move) return;
+
+        this.attackHitbox ??= new Hitbox();
+        const { offsetX, offsetY, width, height } = move.hitbox;
+        const hitboxX = this.facingRight
+            ? this.position.x + this.width + offsetX
+            : this.position.x - offsetX - width;
+
+        this.attackHitbox.init(hitboxX, this.position.y + offsetY, width, height, this.playerId, move.damage);
+        this.attackHitbox.active = true;
+    }
+
+    /**
+     * Check if the active special move hits the opponent
+     */
+    checkSpecialMoveHit(): boolean {
+        const move = this.activeSpecialMove;
+        if (!move || !this.attackHitbox || !this.opponent || this.opponent.isInvulnerable) return false;
+        if (!this.attackHitbox.intersects(this.opponent.getHurtbox())) return false;
+
+        const direction = this.facingRight ? 1 : -1;
+        this.opponent.takeDamage({
+            damage: move.damage,
+            knockback: { x: move.knockback.x * direction, y: move.knockback.y },
+            hitStun: move.hitStun,
+            particleType: move.particleType,
+            element: move.mode ?? this.elementalMode.name,
+            height: move.height ?? 'mid',
+        });
+        return true;
+    }
+
+    /**
+     * Pick the aerial version of a normal attack when airborne: flying modes
+     * air-dash when a direction is held, others use the mode's jumping normal
+     * @returns The aerial attack started, or null on the ground
+     */
+    startAerialAttack(): AerialAttackProfile | null {
+        if (this.isGrounded) return null;
+
+        const airDash = this.canFlyInCurrentMode() ? this.elementalMode.airDashAttack : null;
+        const holdingDirection = this.inputFlags.left !== this.inputFlags.right;
+        if (airDash && holdingDirection) {
+            this.facingRight = this.inputFlags.right;
+            this.activeAerialAttack = airDash;
+        } else {
+            this.activeAerialAttack = this.elementalMode.aerialAttack;
+        }
+        return this.activeAerialAttack;
+    }
+
+    getAerialAttack(): AerialAttackProfile | null {
+        return this.activeAerialAttack;
+    }
+
+    endAerialAttack(): void {
+        this.activeAerialAttack = null;
+    }
+
+    /**
+     * Fire the current mode's projectile as a normal attack
+     * @returns Whether a projectile was launched (melee modes return false)
+     */
+    fireModeProjectile(): boolean {
+        const profile = this.elementalMode.projectile;
+        if (!profile || !this.opponent) return false;
+
+        // Damage and effects are fixed at launch time
+        const result = this.applyExAttack(this.elementalMode.attack(this, this.opponent));
+        const hurtbox = this.getHurtbox();
+        const offsetY = hurtbox.y - this.position.y + hurtbox.height / 2 - profile.height / 2;
+        return this.launchProjectile(profile, result, offsetY);
+    }
+
+    /**
+     * Fire the active special move's projectile
+     * @returns Whether a projectile was launched
+     */
+    fireSpecialMoveProjectile(): boolean {
+        const move = this.activeSpecialMove;
+        if (!move?.projectile) return false;
+
+        const direction = this.facingRight ? 1 : -1;
+        return this.launchProjectile(move.projectile, {
+            damage: move.damage,
+            knockback: { x: move.knockback.x * direction, y: move.knockback.y },
+            hitStun: move.hitStun,
+            particleType: move.particleType,
+            element: move.mode ?? this.elementalMode.name,
+            height: move.height ?? 'mid',
+        }, move.hitbox.offsetY);
+    }
+
+    private launchProjectile(profile: ProjectileProfile, result: AttackResult, offsetY: number): boolean {
+        if (!this.projectileSystem) return false;
+
+        const direction = this.facingRight ? 1 : -1;
+        this.projectileSystem.spawn({
+            ownerId: this.playerId,
+            element: this.elementalMode.name,
+            position: {
+                x: this.facingRight ? this.position.x + this.width : this.position.x - profile.width,
+                y: this.position.y + offsetY,
+            },
+            width: profile.width,
+            height: profile.height,
+            velocity: { x: profile.speed * direction, y: 0 },
+            lifetime: profile.lifetime,
+            result,
+        });
+        return true;
+    }
+
+    /**
+     * Turn this normal attack into its EX version when block is held or was
+     * just pressed with it and a bar of meter is available
+     * @returns Whether the attack is an EX attack
+     */
+    tryStartExAttack(): boolean {
+        const blockPressed = this.inputFlags.block || this.inputBuffer.wasPressed('block');
+        if (!blockPressed || !this.spendMeter(EX_ATTACK_METER_COST)) return false;
+
+        this.inputBuffer.consume('block');
+        this.isExAttack = true;
+        return true;
+    }
+
+    private applyExAttack(result: AttackResult): AttackResult {
+        if (!this.isExAttack) return result;
+
+        return {
+            ...result,
+            damage: result.damage * EX_ATTACK_MULTIPLIERS.damage,
+            hitStun: result.hitStun * EX_ATTACK_MULTIPLIERS.hitStun,
+            knockback: {
+                x: result.knockback.x * EX_ATTACK_MULTIPLIERS.knockback,
+                y: result.knockback.y * EX_ATTACK_MULTIPLIERS.knockback,
+            },
+        };
+    }
+
+    getMeter(): number {
+        return this.meter;
+    }
+
+    /**
+     * Add super meter (capped at the maximum)
+     */
+    gainMeter(amount: number): void {
+        if (amount <= 0 || this.meter >= this.maxMeter) return;
+
+        this.meter = Math.min(this.maxMeter, this.meter + amount);
+        this.notifyMeter();
+    }
+
+    /**
+     * Pay for an EX attack or super move
+     * @returns Whether there was enough meter
+     */
+    spendMeter(cost: number): boolean {
+        if (cost > this.meter) return false;
+
+        this.meter -= cost;
+        this.notifyMeter();
+        return true;
+    }
+
+    private notifyMeter(): void {
+        this.notify({
+            playerId: this.playerId,
+            meter: this.meter,
+            maxMeter: this.maxMeter,
+        } as MeterChangeEvent);
+    }
+
+    /**
+     * Damage taken builds meter for both sides: more for the attacker
+     */
+    private rewardMeterForDamage(damage: number): void {
+        this.gainMeter(damage * METER_GAIN_PER_DAMAGE_TAKEN);
+        this.opponent?.gainMeter(damage * METER_GAIN_PER_DAMAGE_DEALT);
+    }
+
+    /**
+     * Particle type for effects of the current hitbox
+     */
+    getHitParticleType(): ParticleType {
+        return this.activeSpecialMove?.particleType ?? this.elementalMode.getParticleType();
+    }
+
     /**
      * Start attack cooldown
      */
@@ -309,13 +822,35 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
     updateAttackHitbox(): void {
         if (!this.attackHitbox) return;
 
+        const aerial = this.activeAerialAttack;
+        if (aerial) {
+            const { offsetX, offsetY, width, height } = aerial.hitbox;
+            const aerialX = this.facingRight
+                ? this.position.x + this.width + offsetX
+                : this.position.x - offsetX - width;
+            this.attackHitbox.init(
+                aerialX,
+                this.position.y + offsetY,
+                width,
+                height,
+                this.playerId,
+                this.elementalMode.damageMultiplier * aerial.damageMultiplier * 10
+            );
+            this.attackHitbox.active = true;
+            return;
+        }
+
         const attackWidth = ATTACK_WIDTH * this.elementalMode.attackRangeMultiplier;
-        const attackHeight = ATTACK_HEIGHT * this.elementalMode.attackHeightMultiplier;
+        const attackHeight = ATTACK_HEIGHT * this.elementalMode.attackHeightMultiplier *
+            (this.isCrouching ? CROUCH_ATTACK_HEIGHT_MULTIPLIER : 1);
         const hitboxX = this.facingRight
             ? this.position.x + this.width
             : this.position.x - attackWidth;
 
-        const hitboxY = this.position.y + this.height / 2 - attackHeight / 2;
+        // Crouching attacks sweep along the floor, standing ones hit mid-body
+        const hitboxY = this.isCrouching
+            ? this.position.y + this.height - attackHeight
+            : this.position.y + this.height / 2 - attackHeight / 2;
 
         this.attackHitbox.init(
             hitboxX,
@@ -349,13 +884,13 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
      * Check if attack hits opponent
      */
     checkAttackHit(): boolean {
-        if (!this.attackHitbox || !this.opponent) return false;
+        if (!this.attackHitbox || !this.opponent || this.opponent.isInvulnerable) return false;
 
         const opponentRect = this.opponent.getHurtbox();
 
         if (this.attackHitbox.intersects(opponentRect)) {
             // Calculate attack result using Strategy pattern
-            const result = this.elementalMode.attack(this, this.opponent);
+            const result = this.applyExAttack(this.getNormalAttackResult(this.opponent));
 
             // Apply damage to opponent
             this.opponent.takeDamage(result);
@@ -367,26 +902,62 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
     }
 
     /**
-     * Get character hurtbox (body collision box)
+     * Mode attack, adjusted for crouching (low) or aerial (high, with the
+     * aerial's own damage, angle and hitstun) attacks
+     */
+    private getNormalAttackResult(target: Character): AttackResult {
+        const result = this.elementalMode.attack(this, target);
+        const aerial = this.activeAerialAttack;
+        if (!aerial) {
+            return { ...result, height: this.isCrouching ? 'low' : 'mid' };
+        }
+
+        const direction = this.facingRight ? 1 : -1;
+        return {
+            ...result,
+            damage: result.damage * aerial.damageMultiplier,
+            knockback: { x: aerial.knockback.x * direction, y: aerial.knockback.y },
+            hitStun: aerial.hitStun,
+            height: 'high',
+        };
+    }
+
+    /**
+     * Get character hurtbox (body collision box); crouching lowers its top
+     * while the feet stay on the ground
      */
     getHurtbox(): Rectangle {
+        const height = this.isCrouching ? CROUCH_HEIGHT : this.height;
         return {
             x: this.position.x,
-            y: this.position.y,
+            y: this.position.y + this.height - height,
             width: this.width,
-            height: this.height,
+            height,
         };
     }
 
     /**
-     * Take damage from an attack
+     * Take damage from an attack, scaled by the elemental matchup
+     * @returns Whether the attack connected or was stopped by the guard
      */
-    takeDamage(attackResult: AttackResult): void {
+    takeDamage(incomingAttack: AttackResult): HitOutcome {
+        const { result: attackResult, matchup } = applyElementalMatchup(incomingAttack, this.getModeName());
+
+        if (this.isBlocking && this.isAttackFromFront(attackResult) && this.canGuardHeight(attackResult)) {
+            this.blockAttack(attackResult);
+            return 'blocked';
+        }
+
+        // Hits landing before the hitstun wears off extend the combo, each one scaled down further
+        const comboHits = this.isHitStunned ? this.comboHits + 1 : 1;
+        const scaledDamage = attackResult.damage * Character.getComboDamageScaling(comboHits);
+
         // Apply defense using Strategy pattern
-        const reducedDamage = this.elementalMode.defend(this, attackResult.damage);
+        const reducedDamage = this.elementalMode.defend(this, scaledDamage);
 
         // Apply damage
         this.health = Math.max(0, this.health - reducedDamage);
+        this.rewardMeterForDamage(reducedDamage);
 
         // Apply knockback
         this.velocity.x = attackResult.knockback.x;
@@ -398,15 +969,243 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
         // Transition to hit state
         this.transitionTo(this.states.hit);
 
-        // Notify observers (for health bar)
+        // Notify observers (for health bar and matchup callouts)
         this.notify({
             playerId: this.playerId,
             currentHealth: this.health,
             maxHealth: this.maxHealth,
             damage: reducedDamage,
+            ...(matchup !== 'neutral' ? { matchup } : {}),
+        } as HealthChangeEvent);
+
+        this.comboDamage = comboHits > 1 ? this.comboDamage + reducedDamage : reducedDamage;
+        this.comboHits = comboHits;
+        if (comboHits > 1) {
+            this.notifyCombo(false);
+        }
+
+        return 'hit';
+    }
+
+    /**
+     * Damage share of the nth hit in a combo
+     */
+    static getComboDamageScaling(hit: number): number {
+        return Math.max(COMBO_MIN_DAMAGE_SCALING, 1 - COMBO_DAMAGE_SCALING_PER_HIT * (hit - 1));
+    }
+
+    /**
+     * Hits in the combo currently being landed on this character
+     */
+    getComboHits(): number {
+        return this.comboHits;
+    }
+
+    private endCombo(): void {
+        if (this.comboHits > 1) {
+            this.notifyCombo(true);
+        }
+        this.comboHits = 0;
+        this.comboDamage = 0;
+    }
+
+    private notifyCombo(finished: boolean): void {
+        this.notify({
+            playerId: this.opponent?.playerId ?? (this.playerId === 'Player1' ? 'Player2' : 'Player1'),
+            targetId: this.playerId,
+            hits: this.comboHits,
+            damage: this.comboDamage,
+            finished,
+        } as ComboEvent);
+    }
+
+    /**
+     * Absorb a guarded attack: chip damage and blockstun instead of hitstun
+     */
+    private blockAttack(attackResult: AttackResult): void {
+        // Chip damage still goes through the mode's defense
+        const chipDamage = this.elementalMode.defend(
+            this,
+            attackResult.damage * BLOCK_CHIP_DAMAGE_MULTIPLIER
+        );
+        this.health = Math.max(0, this.health - chipDamage);
+        this.rewardMeterForDamage(chipDamage);
+
+        // Re-enter block state so blockstun restarts on every guarded hit
+        this.lastBlockStun = attackResult.hitStun * BLOCK_STUN_MULTIPLIER;
+        this.transitionTo(this.states.block);
+        this.velocity.x = attackResult.knockback.x * BLOCK_KNOCKBACK_MULTIPLIER;
+
+        this.notify({
+            playerId: this.playerId,
+            currentHealth: this.health,
+            maxHealth: this.maxHealth,
+            damage: chipDamage,
+        } as HealthChangeEvent);
+    }
+
+    /**
+     * Lows must be blocked crouching and highs standing; mids either way
+     */
+    private canGuardHeight(attackResult: AttackResult): boolean {
+        switch (attackResult.height ?? 'mid') {
+            case 'low':
+                return this.isCrouching;
+            case 'high':
+                return !this.isCrouching;
+            case 'mid':
+                return true;
+        }
+    }
+
+    /**
+     * Knockback points away from the attacker, so an attack from the front
+     * pushes against the direction the character is facing
+     */
+    private isAttackFromFront(attackResult: AttackResult): boolean {
+        const pushDirection = Math.sign(attackResult.knockback.x);
+        if (pushDirection === 0) return true;
+        return this.facingRight ? pushDirection < 0 : pushDirection > 0;
+    }
+
+    /**
+     * Grab the opponent if they are within throw range and can be thrown
+     * @returns Whether the grab connected
+     */
+    tryThrowGrab(): boolean {
+        const opponent = this.opponent;
+        if (!opponent || !opponent.isThrowable() || this.getThrowGap(opponent) > THROW_RANGE) {
+            return false;
+        }
+
+        opponent.holdForThrow();
+        return true;
+    }
+
+    /**
+     * Whether the held opponent pressed throw to escape
+     */
+    isThrowTeched(): boolean {
+        return this.opponent?.inputBuffer.wasPressed('throw') ?? false;
+    }
+
+    /**
+     * Let go of a teched grab: both characters are pushed apart into tech recovery
+     */
+    techThrow(): void {
+        const opponent = this.opponent;
+        if (!opponent) return;
+
+        const direction = this.isOpponentOnRight() ? 1 : -1;
+        opponent.inputBuffer.consume('throw');
+        opponent.transitionTo(opponent.states.throw);
+        opponent.states.throw.startTechRecovery();
+        opponent.velocity.x = direction * THROW_TECH_PUSHBACK;
+        this.velocity.x = -direction * THROW_TECH_PUSHBACK;
+    }
+
+    /**
+     * Finish the grab: carry the opponent over to the other side and throw them
+     */
+    completeThrow(): void {
+        const opponent = this.opponent;
+        if (!opponent) return;
+
+        const direction = this.isOpponentOnRight() ? 1 : -1;
+        opponent.position.x = direction > 0
+            ? this.position.x - opponent.width
+            : this.position.x + this.width;
+        opponent.checkBoundaries();
+
+        opponent.takeThrow({
+            damage: THROW_DAMAGE,
+            knockback: { x: -direction * THROW_KNOCKBACK.x, y: THROW_KNOCKBACK.y },
+            hitStun: THROW_HIT_STUN,
+            particleType: this.elementalMode.getParticleType(),
+        });
+        this.faceOpponent();
+    }
+
+    /**
+     * Drop a held opponent when the throw is interrupted
+     */
+    releaseThrow(): void {
+        if (this.opponent?.isHitStunned) {
+            this.opponent.transitionTo(this.opponent.states.idle);
+        }
+    }
+
+    /**
+     * Grounded characters that are not stunned or throwing themselves can be grabbed
+     */
+    private isThrowable(): boolean {
+        return this.isGrounded &&
+            !this.isInvulnerable &&
+            !this.isHitStunned &&
+            !this.isInBlockStun() &&
+            this.currentState !== this.states.throw;
+    }
+
+    /**
+     * Horizontal space between the two hurtboxes (0 when they overlap)
+     */
+    private getThrowGap(opponent: Character): number {
+        const self = this.getHurtbox();
+        const other = opponent.getHurtbox();
+        return Math.max(0, other.x - (self.x + self.width), self.x - (other.x + other.width));
+    }
+
+    /**
+     * Held in place for the tech window; the hold lasts until the thrower
+     * completes the throw or lets go
+     */
+    private holdForThrow(): void {
+        this.velocity.x = 0;
+        this.velocity.y = 0;
+        this.lastHitStun = (THROW_TECH_WINDOW_FRAMES + THROW_ANIMATION_FRAMES) * FIXED_TIMESTEP;
+        this.transitionTo(this.states.hit);
+    }
+
+    /**
+     * Land a throw: fixed damage that ignores guard, elemental matchups and mode defense
+     */
+    private takeThrow(throwResult: AttackResult): void {
+        // Leave the hold first so the throw's own hitstun applies
+        this.transitionTo(this.states.idle);
+
+        this.health = Math.max(0, this.health - throwResult.damage);
+        this.rewardMeterForDamage(throwResult.damage);
+
+        this.velocity.x = throwResult.knockback.x;
+        this.velocity.y = throwResult.knockback.y;
+        this.lastHitStun = throwResult.hitStun;
+        this.transitionTo(this.states.hit);
+        this.faceOpponent();
+
+        this.notify({
+            playerId: this.playerId,
+            currentHealth: this.health,
+            maxHealth: this.maxHealth,
+            damage: throwResult.damage,
         } as HealthChangeEvent);
     }
 
+    /**
+     * Turn to face the opponent, if one is set
+     */
+    faceOpponent(): void {
+        if (!this.opponent) return;
+        this.facingRight = this.isOpponentOnRight();
+    }
+
+    /**
+     * Side the opponent is on (defines "forward" for motion inputs)
+     */
+    isOpponentOnRight(): boolean {
+        if (!this.opponent) return this.facingRight;
+        return this.opponent.position.x > this.position.x;
+    }
+
     /**
      * Store absorbed damage as bonus for Light mode attacks.
      */
@@ -418,6 +1217,10 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
         );
     }
 
+    getAbsorbedDamageBonus(): number {
+        return this.absorbedDamageBonus;
+    }
+
     /**
      * Consume all stored absorbed damage bonus.
      */
@@ -427,6 +1230,19 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
         return bonus;
     }
 
+    /**
+     * Refill health (training mode)
+     */
+    restoreHealth(): void {
+        this.health = this.maxHealth;
+        this.notify({
+            playerId: this.playerId,
+            currentHealth: this.health,
+            maxHealth: this.maxHealth,
+            damage: 0,
+        } as HealthChangeEvent);
+    }
+
     /**
      * Check if character is defeated
      */
@@ -439,14 +1255,31 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
      */
     reset(startPosition: Vector2): void {
         this.position = { ...startPosition };
+        this.previousPosition = { ...startPosition };
         this.velocity = { x: 0, y: 0 };
         this.health = MAX_HEALTH;
         this.isGrounded = true;
         this.isAttacking = false;
         this.isHitStunned = false;
+        this.isBlocking = false;
+        this.lastBlockStun = 0;
+        this.pendingSpecialMove = null;
+        this.activeSpecialMove = null;
         this.attackCooldownTimer = 0;
         this.attackHitbox = null;
         this.absorbedDamageBonus = 0;
+        this.comboHits = 0;
+        this.comboDamage = 0;
+        this.meter = 0;
+        this.isExAttack = false;
+        this.pendingCinematic = null;
+        this.isCrouching = false;
+        this.activeAerialAttack = null;
+        this.pendingDash = null;
+        this.isInvulnerable = false;
+        this.airDashUsed = false;
+        this.standingOn = null;
+        this.inputBuffer.clear();
         this.setMode(0, true);
 
         // Reset to idle state
@@ -459,16 +1292,19 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
             up: false,
             down: false,
             attack: false,
+            block: false,
+            throw: false,
             moving: false,
         };
 
-        // Notify health change
+        // Notify health and meter change
         this.notify({
             playerId: this.playerId,
             currentHealth: this.health,
             maxHealth: this.maxHealth,
             damage: 0,
         } as HealthChangeEvent);
+        this.notifyMeter();
     }
 
     /**
@@ -481,82 +1317,101 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
     /**
      * Render character to canvas
      * NOTE: Replace ctx.fillRect with ctx.drawImage when you have sprite assets
+     * @param alpha - Interpolation factor between the last two simulation steps
      */
-    render(ctx: CanvasRenderingContext2D): void {
+    render(ctx: CanvasRenderingContext2D, alpha: number = 1): void {
         const visualConfig = this.elementalMode.getVisualConfig();
+        const { x, y } = this.getRenderPosition(alpha);
+        const offsetX = x - this.position.x;
+        const offsetY = y - this.position.y;
+        // Top of the body, lowered while crouching
+        const bodyY = y + this.height - this.getHurtbox().height;
 
         ctx.save();
 
+        // Fade while a backdash is invulnerable
+        if (this.isInvulnerable) {
+            ctx.globalAlpha = 0.5;
+        }
+
         // Draw glow effect
         ctx.shadowColor = visualConfig.glowColor;
         ctx.shadowBlur = 20;
 
         // =====================================================
         // CHARACTER BODY - Replace with ctx.drawImage for sprites
-        // Example: ctx.drawImage(this.sprite, this.position.x, this.position.y, this.width, this.height);
+        // Example: ctx.drawImage(this.sprite, x, y, this.width, this.height);
         // =====================================================
 
+        // Crouching squashes the body toward the feet
+        ctx.save();
+        if (this.isCrouching) {
+            ctx.translate(0, y + this.height);
+            ctx.scale(1, CROUCH_HEIGHT / this.height);
+            ctx.translate(0, -(y + this.height));
+        }
+
         // Main body shape by active mode
         ctx.fillStyle = visualConfig.primaryColor;
         if (this.elementalMode.form === 'armored') {
-            ctx.fillRect(this.position.x, this.position.y + 6, this.width, this.height - 6);
-            ctx.fillRect(this.position.x - 4, this.position.y + 24, this.width + 8, this.height - 34);
+            ctx.fillRect(x, y + 6, this.width, this.height - 6);
+            ctx.fillRect(x - 4, y + 24, this.width + 8, this.height - 34);
         } else if (this.elementalMode.form === 'fluid') {
             ctx.beginPath();
-            ctx.moveTo(this.position.x + 12, this.position.y);
-            ctx.lineTo(this.position.x + this.width - 12, this.position.y);
+            ctx.moveTo(x + 12, y);
+            ctx.lineTo(x + this.width - 12, y);
             ctx.quadraticCurveTo(
-                this.position.x + this.width,
-                this.position.y,
-                this.position.x + this.width,
-                this.position.y + 16
+                x + this.width,
+                y,
+                x + this.width,
+                y + 16
             );
-            ctx.lineTo(this.position.x + this.width, this.position.y + this.height - 12);
+            ctx.lineTo(x + this.width, y + this.height - 12);
             ctx.quadraticCurveTo(
-                this.position.x + this.width,
-                this.position.y + this.height,
-                this.position.x + this.width - 12,
-                this.position.y + this.height
+                x + this.width,
+                y + this.height,
+                x + this.width - 12,
+                y + this.height
             );
-            ctx.lineTo(this.position.x + 12, this.position.y + this.height);
+            ctx.lineTo(x + 12, y + this.height);
             ctx.quadraticCurveTo(
-                this.position.x,
-                this.position.y + this.height,
-                this.position.x,
-                this.position.y + this.height - 16
+                x,
+                y + this.height,
+                x,
+                y + this.height - 16
             );
-            ctx.lineTo(this.position.x, this.position.y + 12);
+            ctx.lineTo(x, y + 12);
             ctx.quadraticCurveTo(
-                this.position.x,
-                this.position.y,
-                this.position.x + 12,
-                this.position.y
+                x,
+                y,
+                x + 12,
+                y
             );
             ctx.fill();
         } else if (this.elementalMode.form === 'aerial') {
             ctx.beginPath();
-            ctx.moveTo(this.position.x + this.width / 2, this.position.y);
-            ctx.lineTo(this.position.x + this.width, this.position.y + this.height / 2);
-            ctx.lineTo(this.position.x + this.width / 2, this.position.y + this.height);
-            ctx.lineTo(this.position.x, this.position.y + this.height / 2);
+            ctx.moveTo(x + this.width / 2, y);
+            ctx.lineTo(x + this.width, y + this.height / 2);
+            ctx.lineTo(x + this.width / 2, y + this.height);
+            ctx.lineTo(x, y + this.height / 2);
             ctx.closePath();
             ctx.fill();
         } else {
-            ctx.fillRect(this.position.x, this.position.y, this.width, this.height);
+            ctx.fillRect(x, y, this.width, this.height);
         }
 
         // Secondary color accent
         ctx.fillStyle = visualConfig.secondaryColor;
         if (this.elementalMode.form === 'aerial') {
-            ctx.fillRect(this.position.x + 6, this.position.y + this.height / 2 - 8, this.width - 12, 16);
-            ctx.fillRect(this.position.x + this.width / 2 - 8, this.position.y + 8, 16, this.height - 16);
+            ctx.fillRect(x + 6, y + this.height / 2 - 8, this.width - 12, 16);
+            ctx.fillRect(x + this.width / 2 - 8, y + 8, 16, this.height - 16);
         } else if (this.elementalMode.form === 'armored') {
-            ctx.fillRect(this.position.x + 8, this.position.y + 14, this.width - 16, 26);
-            ctx.fillRect(this.position.x + 20, this.position.y + 52, this.width - 40, this.height - 68);
+            ctx.fillRect(x + 8, y + 14, this.width - 16, 26);
+            ctx.fillRect(x + 20, y + 52, this.width - 40, this.height - 68);
         } else {
             ctx.fillRect(
-                this.position.x + 10,
-                this.position.y + 10,
+                x + 10,
+                y + 10,
                 this.width - 20,
                 30
             );
@@ -564,13 +1419,14 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
 
         // Draw face direction indicator
         const eyeX = this.facingRight
-            ? this.position.x + this.width - 20
-            : this.position.x + 10;
+            ? x + this.width - 20
+            : x + 10;
         const eyeY = this.elementalMode.form === 'aerial'
-            ? this.position.y + this.height / 2 - 18
-            : this.position.y + 25;
+            ? y + this.height / 2 - 18
+            : y + 25;
         ctx.fillStyle = '#ffffff';
         ctx.fillRect(eyeX, eyeY, 10, 10);
+        ctx.restore();
 
         // =====================================================
         // ATTACK ANIMATION - Replace with attack sprite
@@ -578,16 +1434,18 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
 
         // Draw attack effect when attacking
         if (this.isAttacking && this.attackHitbox) {
+            const hitboxX = this.attackHitbox.x + offsetX;
+            const hitboxY = this.attackHitbox.y + offsetY;
             ctx.fillStyle = `${visualConfig.primaryColor}88`;
             ctx.shadowBlur = 30;
 
             if (this.elementalMode.attackEffect === 'beam') {
                 const beamHeight = Math.max(8, this.attackHitbox.height);
-                const beamY = this.attackHitbox.y + this.attackHitbox.height / 2 - beamHeight / 2;
+                const beamY = hitboxY + this.attackHitbox.height / 2 - beamHeight / 2;
                 const beamGradient = ctx.createLinearGradient(
-                    this.attackHitbox.x,
+                    hitboxX,
                     beamY,
-                    this.attackHitbox.x + this.attackHitbox.width,
+                    hitboxX + this.attackHitbox.width,
                     beamY
                 );
                 beamGradient.addColorStop(0, `${visualConfig.primaryColor}66`);
@@ -596,7 +1454,7 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
 
                 ctx.fillStyle = beamGradient;
                 ctx.fillRect(
-                    this.attackHitbox.x,
+                    hitboxX,
                     beamY,
                     this.attackHitbox.width,
                     beamHeight
@@ -604,33 +1462,112 @@ export class Character extends Subject<HealthChangeEvent | ModeChangeEvent> {
             } else {
                 // Attack slash effect
                 ctx.fillRect(
-                    this.attackHitbox.x,
-                    this.attackHitbox.y,
+                    hitboxX,
+                    hitboxY,
                     this.attackHitbox.width,
                     this.attackHitbox.height
                 );
             }
+
+            // EX attacks get a golden edge
+            if (this.isExAttack) {
+                ctx.strokeStyle = '#facc15';
+                ctx.lineWidth = 3;
+                ctx.strokeRect(hitboxX, hitboxY, this.attackHitbox.width, this.attackHitbox.height);
+            }
+        }
+
+        // Draw grabbing arm or throw swing
+        if (this.currentState === this.states.throw) {
+            this.drawThrow(ctx, x, y);
+        }
+
+        // Draw guard shield in front of the character
+        if (this.isBlocking) {
+            this.drawBlockShield(ctx, x, bodyY, y + this.height - bodyY);
         }
 
         // Draw hit flash when stunned
         if (this.isHitStunned) {
             ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
-            ctx.fillRect(this.position.x, this.position.y, this.width, this.height);
+            ctx.fillRect(x, bodyY, this.width, y + this.height - bodyY);
         }
 
         ctx.restore();
 
         // Draw mode indicator above character
-        this.drawModeIndicator(ctx);
+        this.drawModeIndicator(ctx, x, bodyY);
+    }
+
+    /**
+     * Draw guard shield on the facing side, tinted by the active mode
+     */
+    private drawBlockShield(ctx: CanvasRenderingContext2D, x: number, y: number, bodyHeight: number): void {
+        const visualConfig = this.elementalMode.getVisualConfig();
+        const centerX = x + this.width / 2;
+        const centerY = y + bodyHeight / 2;
+        const radius = bodyHeight * 0.6;
+        const facingAngle = this.facingRight ? 0 : Math.PI;
+
+        ctx.save();
+        ctx.shadowColor = visualConfig.glowColor;
+        ctx.shadowBlur = 18;
+        ctx.strokeStyle = visualConfig.secondaryColor;
+        ctx.lineWidth = 6;
+        ctx.beginPath();
+        ctx.arc(centerX, centerY, radius, facingAngle - Math.PI / 3, facingAngle + Math.PI / 3);
+        ctx.stroke();
+
+        ctx.fillStyle = `${visualConfig.primaryColor}33`;
+        ctx.beginPath();
+        ctx.moveTo(centerX, centerY);
+        ctx.arc(centerX, centerY, radius, facingAngle - Math.PI / 3, facingAngle + Math.PI / 3);
+        ctx.closePath();
+        ctx.fill();
+        ctx.restore();
+    }
+
+    /**
+     * Draw the throw: an arm reaching forward, wrapped around the opponent
+     * while holding, then an arc over the head as they are thrown
+     */
+    private drawThrow(ctx: CanvasRenderingContext2D, x: number, y: number): void {
+        const phase = this.states.throw.getPhase();
+        if (phase === 'teched') return;
+
+        const visualConfig = this.elementalMode.getVisualConfig();
+        const direction = this.facingRight ? 1 : -1;
+        const shoulderX = this.facingRight ? x + this.width : x;
+        const shoulderY = y + this.height * 0.35;
+
+        ctx.save();
+        ctx.shadowColor = visualConfig.glowColor;
+        ctx.shadowBlur = 12;
+        ctx.strokeStyle = visualConfig.secondaryColor;
+        ctx.lineWidth = phase === 'hold' ? 10 : 6;
+        ctx.lineCap = 'round';
+        ctx.beginPath();
+
+        if (phase === 'throwing') {
+            // The throw itself: a swing over the head to the other side
+            const centerX = x + this.width / 2;
+            ctx.arc(centerX, shoulderY, this.width, Math.PI, 0);
+        } else {
+            ctx.moveTo(shoulderX, shoulderY);
+            ctx.lineTo(shoulderX + direction * THROW_RANGE, shoulderY);
+        }
+
+        ctx.stroke();
+        ctx.restore();
     }
 
     /**
      * Draw elemental mode indicator above character
      */
-    private drawModeIndicator(ctx: CanvasRenderingContext2D): void {
+    private drawModeIndicator(ctx: CanvasRenderingContext2D, x: number, y: number): void {
         const indicatorSize = 16;
-        const indicatorX = this.position.x + this.width / 2 - indicatorSize / 2;
-        const indicatorY = this.position.y - 25;
+        const indicatorX = x + this.width / 2 - indicatorSize / 2;
+        const indicatorY = y - 25;
 
         const visualConfig = this.elementalMode.getVisualConfig();
 
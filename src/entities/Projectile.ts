@@ -0,0 +1,147 @@
+/**
+ * Projectile Entity
+ * Ranged attack that flies on its own until it hits, clashes or expires
+ * Implements IPoolable for object pooling
+ */
+
+import type {
+    AttackResult,
+    ElementalMode,
+    IPoolable,
+    PlayerId,
+    ProjectileSpawn,
+    Rectangle,
+    Vector2,
+    VisualConfig
+} from '../types';
+import { Hitbox } from './Hitbox';
+import {
+    DARK_VISUAL,
+    EARTH_VISUAL,
+    FIRE_VISUAL,
+    LIGHT_VISUAL,
+    WATER_VISUAL,
+    WIND_VISUAL
+} from '../constants/GameConfig';
+
+const ELEMENT_VISUALS: Record<ElementalMode, VisualConfig> = {
+    Fire: FIRE_VISUAL,
+    Water: WATER_VISUAL,
+    Earth: EARTH_VISUAL,
+    Wind: WIND_VISUAL,
+    Light: LIGHT_VISUAL,
+    Dark: DARK_VISUAL,
+};
+
+export class Projectile implements IPoolable {
+    active = false;
+
+    readonly hitbox = new Hitbox();
+    velocity: Vector2 = { x: 0, y: 0 };
+    ownerId: PlayerId = 'Player1';
+    element: ElementalMode = 'Fire';
+    result: AttackResult = Projectile.emptyResult();
+
+    lifetime = 0;
+    maxLifetime = 0;
+    private previousX = 0;
+    private previousY = 0;
+
+    reset(): void {
+        this.hitbox.reset();
+        this.velocity = { x: 0, y: 0 };
+        this.ownerId = 'Player1';
+        this.element = 'Fire';
+        this.result = Projectile.emptyResult();
+        this.lifetime = 0;
+        this.maxLifetime = 0;
+        this.previousX = 0;
+        this.previousY = 0;
+    }
+
+    /**
+     * Initialize projectile with launch parameters
+     */
+    init(spawn: ProjectileSpawn): void {
+        this.hitbox.init(
+            spawn.position.x,
+            spawn.position.y,
+            spawn.width,
+            spawn.height,
+            spawn.ownerId,
+            spawn.result.damage
+        );
+        this.hitbox.active = true;
+        this.velocity = { ...spawn.velocity };
+        this.ownerId = spawn.ownerId;
+        this.element = spawn.element;
+        this.result = { ...spawn.result, knockback: { ...spawn.result.knockback } };
+        this.lifetime = 0;
+        this.maxLifetime = spawn.lifetime;
+        this.previousX = spawn.position.x;
+        this.previousY = spawn.position.y;
+    }
+
+    /**
+     * Move along the flight path and age
+     * @returns true if projectile is still alive
+     */
+    update(deltaTime: number): boolean {
+        if (!this.active) return false;
+
+        this.lifetime += deltaTime * 1000;
+        if (this.lifetime >= this.maxLifetime) {
+            return false;
+        }
+
+        this.previousX = this.hitbox.x;
+        this.previousY = this.hitbox.y;
+        this.hitbox.setPosition(
+            this.hitbox.x + this.velocity.x * deltaTime,
+            this.hitbox.y + this.velocity.y * deltaTime
+        );
+
+        return true;
+    }
+
+    getRect(): Rectangle {
+        return this.hitbox.getRect();
+    }
+
+    getCenter(): Vector2 {
+        return this.hitbox.getCenter();
+    }
+
+    /**
+     * Render projectile to canvas
+     * @param alpha - Interpolation factor between the last two simulation steps
+     */
+    render(ctx: CanvasRenderingContext2D, alpha: number = 1): void {
+        if (!this.active) return;
+
+        const visual = ELEMENT_VISUALS[this.element];
+        const x = this.previousX + (this.hitbox.x - this.previousX) * alpha;
+        const y = this.previousY + (this.hitbox.y - this.previousY) * alpha;
+        const { width, height } = this.hitbox;
+
+        ctx.save();
+        ctx.shadowColor = visual.glowColor;
+        ctx.shadowBlur = 20;
+
+        const gradient = ctx.createLinearGradient(x, y, x + width, y);
+        const leadingColor = `${visual.secondaryColor}ff`;
+        const trailingColor = `${visual.primaryColor}55`;
+        gradient.addColorStop(0, this.velocity.x >= 0 ? trailingColor : leadingColor);
+        gradient.addColorStop(1, this.velocity.x >= 0 ? leadingColor : trailingColor);
+
+        ctx.fillStyle = gradient;
+        ctx.beginPath();
+        ctx.ellipse(x + width / 2, y + height / 2, width / 2, height / 2, 0, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.restore();
+    }
+
+    private static emptyResult(): AttackResult {
+        return { damage: 0, knockback: { x: 0, y: 0 }, hitStun: 0, particleType: 'spark' };
+    }
+}
@@ -1,19 +1,50 @@
 /**
  * Main Entry Point
- * Game mode selection + normal match + tournament flow
+ * Game mode selection + normal match + tournament flow + training
  */
 
 import { GameEngine } from './core/GameEngine';
 import { CharacterFactory } from './patterns/factory/CharacterFactory';
-import type { CharacterSelectionOption, CharacterType, MatchCharacterSelection, PlayerId } from './types';
-
-type GameMode = 'normal' | 'tournament';
+import { getGamepad } from './systems/GamepadInput';
+import { KeyBindingStore } from './systems/KeyBindingStore';
+import { ReplayPlayer } from './systems/ReplaySystem';
+import { ControlsScreen } from './ui/ControlsScreen';
+import { PauseMenu } from './ui/PauseMenu';
+import {
+    DEFAULT_MATCH_RULES,
+    DEFAULT_STAGE,
+    DEFAULT_TRAINING_OPTIONS,
+    DUMMY_BEHAVIORS,
+    GAMEPAD_SLOTS,
+    GLOBAL_SHORTCUT_KEYS,
+    ROUNDS_BEST_OF_OPTIONS,
+    STAGES,
+    SUDDEN_DEATH_RULES
+} from './constants/GameConfig';
+import type {
+    CharacterSelectionOption,
+    CharacterType,
+    DummyBehavior,
+    InputSource,
+    KeyBindings,
+    MatchCharacterSelection,
+    MatchOutcome,
+    MatchRules,
+    PlayerController,
+    PlayerId,
+    ReplayData,
+    StageId,
+    TrainingOptions
+} from './types';
+
+type GameMode = 'normal' | 'tournament' | 'training';
 type TournamentSize = 2 | 4 | 6 | 8;
 
 interface DuelParticipant {
     seed: number;
     name: string;
     character: CharacterType;
+    controller: PlayerController;
 }
 
 interface TournamentMatch {
@@ -21,6 +52,8 @@ interface TournamentMatch {
     matchNumber: number;
     player1: DuelParticipant;
     player2: DuelParticipant;
+    /** Rematch of a drawn match, settled in a single short round */
+    suddenDeath?: boolean;
 }
 
 interface TournamentRuntime {
@@ -34,6 +67,12 @@ interface TournamentRuntime {
 }
 
 const TOURNAMENT_SIZES: TournamentSize[] = [2, 4, 6, 8];
+const CONTROLLER_OPTIONS: Array<{ value: PlayerController; label: string }> = [
+    { value: 'Human', label: 'Human' },
+    { value: 'Easy', label: 'vs CPU - Easy' },
+    { value: 'Normal', label: 'vs CPU - Normal' },
+    { value: 'Hard', label: 'vs CPU - Hard' },
+];
 const ROUND_PROGRESS_DURATION_MS = 3000;
 const TOURNAMENT_FINAL_SHOW_MS = 5000;
 
@@ -45,6 +84,9 @@ let currentTournamentSize: TournamentSize = 2;
 let tournamentRuntime: TournamentRuntime | null = null;
 let rosterCache: CharacterSelectionOption[] = [];
 let tournamentFinalTimeoutId: number | null = null;
+const keyBindingStore = new KeyBindingStore();
+let controlsScreen: ControlsScreen | null = null;
+let pauseMenu: PauseMenu | null = null;
 
 document.addEventListener('DOMContentLoaded', () => {
     initSetupScreen();
@@ -56,8 +98,18 @@ function initSetupScreen(): void {
     const startButton = document.getElementById('startMatchButton');
     const summary = document.getElementById('selectedCharactersSummary');
     const participantsContainer = document.getElementById('tournamentParticipants');
-
-    if (!p1Container || !p2Container || !startButton || !summary || !participantsContainer) {
+    const p1ControllerSelect = document.getElementById('p1ControllerSelect') as HTMLSelectElement | null;
+    const p2ControllerSelect = document.getElementById('p2ControllerSelect') as HTMLSelectElement | null;
+
+    if (
+        !p1Container ||
+        !p2Container ||
+        !startButton ||
+        !summary ||
+        !participantsContainer ||
+        !p1ControllerSelect ||
+        !p2ControllerSelect
+    ) {
         console.error('Setup UI not found.');
         return;
     }
@@ -68,17 +120,34 @@ function initSetupScreen(): void {
 
     renderCharacterOptions(p1Container, 'p1-character', rosterCache, firstType);
     renderCharacterOptions(p2Container, 'p2-character', rosterCache, secondType);
+    renderControllerOptions(p1ControllerSelect, 'Human');
+    renderControllerOptions(p2ControllerSelect, 'Human');
     renderTournamentParticipants(currentTournamentSize);
+    renderDummyBehaviorOptions();
+    renderStageOptions();
 
     bindModeInputs();
+    bindInputSourceControls();
+    bindControlsScreen();
+    bindPauseMenu();
+    bindReplayControls();
 
     startButton.addEventListener('click', () => {
         clearTournamentResults();
+        if (!validateInputSources()) {
+            return;
+        }
+
         if (currentMode === 'normal') {
             startNormalMode();
             return;
         }
 
+        if (currentMode === 'training') {
+            startTrainingMode();
+            return;
+        }
+
         startTournamentMode();
     });
 
@@ -91,7 +160,7 @@ function bindModeInputs(): void {
     modeRadios.forEach(radio => {
         radio.addEventListener('change', () => {
             if (!radio.checked) return;
-            currentMode = radio.value === 'tournament' ? 'tournament' : 'normal';
+            currentMode = radio.value === 'tournament' || radio.value === 'training' ? radio.value : 'normal';
             clearTournamentResults();
             syncSetupVisibility();
         });
@@ -110,10 +179,349 @@ function bindModeInputs(): void {
     });
 }
 
+function bindInputSourceControls(): void {
+    renderInputSourceOptions();
+
+    // Pad names only become available once the browser has seen the pad
+    window.addEventListener('gamepadconnected', renderInputSourceOptions);
+    window.addEventListener('gamepaddisconnected', renderInputSourceOptions);
+}
+
+function bindControlsScreen(): void {
+    controlsScreen = new ControlsScreen(keyBindingStore, bindings => {
+        renderControlsInfo(bindings);
+        currentEngine?.applyKeyBindings(bindings);
+    });
+    document.getElementById('openControlsButton')?.addEventListener('click', () => {
+        controlsScreen?.open();
+    });
+
+    renderControlsInfo(keyBindingStore.load());
+}
+
+function bindPauseMenu(): void {
+    pauseMenu = new PauseMenu(
+        {
+            onResume: closePauseMenu,
+            onRestartRound: () => {
+                currentEngine?.restartRound();
+                closePauseMenu();
+            },
+            onControls: () => {
+                pauseMenu?.close();
+                controlsScreen?.open(() => pauseMenu?.open());
+            },
+            onQuit: () => {
+                pauseMenu?.close();
+                returnToSetupScreen();
+            },
+        },
+        [
+            {
+                label: 'Dummy',
+                getValue: () => describeDummyBehavior(currentEngine?.getTrainingOptions()?.dummyBehavior),
+                change: cycleDummyBehavior,
+                isAvailable: () => currentEngine?.isTrainingMode() ?? false,
+            },
+            {
+                label: 'Infinite health',
+                getValue: () => formatOnOff(currentEngine?.getTrainingOptions()?.infiniteHealth ?? false),
+                change: () => toggleTrainingOption('infiniteHealth'),
+                isAvailable: () => currentEngine?.isTrainingMode() ?? false,
+            },
+            {
+                label: 'Instant cooldowns',
+                getValue: () => formatOnOff(currentEngine?.getTrainingOptions()?.instantCooldowns ?? false),
+                change: () => toggleTrainingOption('instantCooldowns'),
+                isAvailable: () => currentEngine?.isTrainingMode() ?? false,
+            },
+            {
+                label: 'Debug info',
+                getValue: () => formatOnOff(currentEngine?.isDebugInfoVisible() ?? true),
+                change: () => currentEngine?.setDebugInfoVisible(!currentEngine.isDebugInfoVisible()),
+            },
+            {
+                label: `Hitboxes (${GLOBAL_SHORTCUT_KEYS.hitboxOverlay})`,
+                getValue: () => formatOnOff(currentEngine?.isHitboxOverlayVisible() ?? false),
+                change: toggleHitboxOverlay,
+            },
+        ]
+    );
+}
+
+function toggleHitboxOverlay(): void {
+    currentEngine?.setHitboxOverlayVisible(!currentEngine.isHitboxOverlayVisible());
+}
+
+function formatOnOff(enabled: boolean): string {
+    return enabled ? 'On' : 'Off';
+}
+
+function describeDummyBehavior(behavior: DummyBehavior | undefined): string {
+    return DUMMY_BEHAVIORS.find(entry => entry.value === behavior)?.label ?? '-';
+}
+
+function cycleDummyBehavior(): void {
+    const current = currentEngine?.getTrainingOptions()?.dummyBehavior;
+    const index = DUMMY_BEHAVIORS.findIndex(entry => entry.value === current);
+    const next = DUMMY_BEHAVIORS[(index + 1) % DUMMY_BEHAVIORS.length];
+    if (next) {
+        currentEngine?.setTrainingOptions({ dummyBehavior: next.value });
+    }
+}
+
+function toggleTrainingOption(option: 'infiniteHealth' | 'instantCooldowns'): void {
+    const options = currentEngine?.getTrainingOptions();
+    if (options) {
+        currentEngine?.setTrainingOptions({ [option]: !options[option] });
+    }
+}
+
+/**
+ * Pause a live match behind the pause menu (replays use the playback controls instead)
+ */
+function openPauseMenu(): void {
+    if (!currentEngine || !pauseMenu || currentEngine.isReplayPlayback() || isGameplayInputBlockedByUI()) {
+        return;
+    }
+
+    const state = currentEngine.getGameState();
+    if (!state.isRunning || state.winner) {
+        return;
+    }
+
+    currentEngine.setPaused(true);
+    pauseMenu.open();
+}
+
+function closePauseMenu(): void {
+    pauseMenu?.close();
+    currentEngine?.setPaused(false);
+}
+
+/**
+ * Refresh the key legend above the canvas
+ */
+function renderControlsInfo(bindings: Record<PlayerId, KeyBindings>): void {
+    (['Player1', 'Player2'] as const).forEach(playerId => {
+        const list = document.getElementById(playerId === 'Player1' ? 'p1ControlsList' : 'p2ControlsList');
+        if (!list) return;
+
+        const keys = bindings[playerId];
+        const kbd = (code: string): string => `<kbd>${KeyBindingStore.formatKey(code)}</kbd>`;
+        list.innerHTML =
+            `<div>${kbd(keys.up)}${kbd(keys.left)}${kbd(keys.down)}${kbd(keys.right)} Move (${kbd(keys.down)} crouches)</div>` +
+            `<div>${kbd(keys.attack)} Attack | ${kbd(keys.switchMode)} Switch Mode | ${kbd(keys.block)} Block</div>` +
+            `<div>${kbd(keys.throw)} Throw (also escapes throws)</div>`;
+    });
+}
+
+function renderInputSourceOptions(): void {
+    (['p1InputSourceSelect', 'p2InputSourceSelect'] as const).forEach(selectId => {
+        const select = document.getElementById(selectId) as HTMLSelectElement | null;
+        if (!select) return;
+
+        const previousValue = select.value || 'keyboard';
+        select.innerHTML = '';
+
+        const keyboardOption = document.createElement('option');
+        keyboardOption.value = 'keyboard';
+        keyboardOption.textContent = 'Keyboard';
+        select.appendChild(keyboardOption);
+
+        GAMEPAD_SLOTS.forEach(slot => {
+            const pad = getGamepad(slot);
+            const optionElement = document.createElement('option');
+            optionElement.value = String(slot);
+            optionElement.textContent = pad
+                ? `Gamepad ${slot + 1} - ${pad.id}`
+                : `Gamepad ${slot + 1} (not connected)`;
+            select.appendChild(optionElement);
+        });
+
+        select.value = previousValue;
+    });
+}
+
+function readMatchRules(): MatchRules {
+    const bestOfSelect = document.getElementById('bestOfSelect') as HTMLSelectElement | null;
+    const timerSelect = document.getElementById('roundTimerSelect') as HTMLSelectElement | null;
+    const bestOf = ROUNDS_BEST_OF_OPTIONS.find(option => String(option) === bestOfSelect?.value);
+    const timeLimit = Number(timerSelect?.value);
+
+    return {
+        bestOf: bestOf ?? DEFAULT_MATCH_RULES.bestOf,
+        roundTimeLimit: timerSelect?.value === 'none'
+            ? null
+            : Number.isFinite(timeLimit) && timeLimit > 0 ? timeLimit : DEFAULT_MATCH_RULES.roundTimeLimit,
+    };
+}
+
+/**
+ * Every stage in the stage select, with its width as a hint of how much room it gives
+ */
+function renderStageOptions(): void {
+    const select = document.getElementById('stageSelect') as HTMLSelectElement | null;
+    if (!select) return;
+
+    select.innerHTML = '';
+    Object.values(STAGES).forEach(stage => {
+        const optionElement = document.createElement('option');
+        optionElement.value = stage.id;
+        optionElement.textContent = `${stage.name} (${stage.width}px wide)`;
+        optionElement.selected = stage.id === DEFAULT_STAGE;
+        select.appendChild(optionElement);
+    });
+}
+
+function readSelectedStage(): StageId {
+    const select = document.getElementById('stageSelect') as HTMLSelectElement | null;
+    const stage = Object.values(STAGES).find(candidate => candidate.id === select?.value);
+    return stage?.id ?? DEFAULT_STAGE;
+}
+
+/**
+ * Dummy behaviors offered before training starts (a recording is made in the session)
+ */
+function renderDummyBehaviorOptions(): void {
+    const select = document.getElementById('dummyBehaviorSelect') as HTMLSelectElement | null;
+    if (!select) return;
+
+    select.innerHTML = '';
+    DUMMY_BEHAVIORS.filter(entry => entry.value !== 'playback').forEach(entry => {
+        const optionElement = document.createElement('option');
+        optionElement.value = entry.value;
+        optionElement.textContent = entry.label;
+        optionElement.selected = entry.value === DEFAULT_TRAINING_OPTIONS.dummyBehavior;
+        select.appendChild(optionElement);
+    });
+}
+
+function readTrainingOptions(): TrainingOptions {
+    const select = document.getElementById('dummyBehaviorSelect') as HTMLSelectElement | null;
+    const infiniteHealth = document.getElementById('infiniteHealthToggle') as HTMLInputElement | null;
+    const instantCooldowns = document.getElementById('instantCooldownsToggle') as HTMLInputElement | null;
+    const behavior = DUMMY_BEHAVIORS.find(entry => entry.value === select?.value);
+
+    return {
+        dummyBehavior: behavior?.value ?? DEFAULT_TRAINING_OPTIONS.dummyBehavior,
+        infiniteHealth: infiniteHealth?.checked ?? DEFAULT_TRAINING_OPTIONS.infiniteHealth,
+        instantCooldowns: instantCooldowns?.checked ?? DEFAULT_TRAINING_OPTIONS.instantCooldowns,
+    };
+}
+
+function readInputSources(): Record<PlayerId, InputSource> {
+    return {
+        Player1: readSelectedInputSource('p1InputSourceSelect'),
+        Player2: readSelectedInputSource('p2InputSourceSelect'),
+    };
+}
+
+function readSelectedInputSource(selectId: string): InputSource {
+    const select = document.getElementById(selectId) as HTMLSelectElement | null;
+    const slot = GAMEPAD_SLOTS.find(candidate => String(candidate) === select?.value);
+    return slot ?? 'keyboard';
+}
+
+/**
+ * Two sides may share the keyboard, but not one gamepad
+ */
+function validateInputSources(): boolean {
+    const sources = readInputSources();
+    if (sources.Player1 === 'keyboard' || sources.Player1 !== sources.Player2) {
+        return true;
+    }
+
+    const summary = document.getElementById('selectedCharactersSummary');
+    if (summary) {
+        summary.textContent = 'Player 1 and Player 2 cannot use the same gamepad.';
+    }
+    return false;
+}
+
+function bindReplayControls(): void {
+    const saveButton = document.getElementById('saveReplayButton');
+    const fileInput = document.getElementById('replayFileInput') as HTMLInputElement | null;
+
+    saveButton?.addEventListener('click', () => {
+        const replay = currentEngine?.getLastReplay();
+        if (!replay || replay.frameCount === 0) {
+            return;
+        }
+
+        downloadReplay(replay);
+    });
+
+    fileInput?.addEventListener('change', () => {
+        const file = fileInput.files?.[0];
+        if (!file) {
+            return;
+        }
+
+        file.text()
+            .then(text => {
+                startReplayPlayback(ReplayPlayer.parse(text));
+            })
+            .catch((error: unknown) => {
+                const summary = document.getElementById('selectedCharactersSummary');
+                if (summary) {
+                    summary.textContent = error instanceof Error
+                        ? `Could not load replay: ${error.message}`
+                        : 'Could not load replay.';
+                }
+            })
+            .finally(() => {
+                fileInput.value = '';
+            });
+    });
+
+    refreshReplayControls();
+}
+
+function refreshReplayControls(): void {
+    const saveButton = document.getElementById('saveReplayButton') as HTMLButtonElement | null;
+    if (!saveButton) return;
+
+    const replay = currentEngine?.isReplayPlayback() ? null : currentEngine?.getLastReplay();
+    saveButton.disabled = !replay || replay.frameCount === 0;
+}
+
+function downloadReplay(replay: ReplayData): void {
+    const blob = new Blob([JSON.stringify(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    const names = `${replay.playerDisplayNames.Player1}-vs-${replay.playerDisplayNames.Player2}`
+        .replace(/[^a-z0-9-]+/gi, '_');
+
+    link.href = url;
+    link.download = `colorclash-replay-${names}-${Date.now()}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+}
+
+function startReplayPlayback(replay: ReplayData): void {
+    clearTournamentResults();
+    tournamentRuntime = null;
+
+    const player1Name = replay.playerDisplayNames.Player1;
+    const player2Name = replay.playerDisplayNames.Player2;
+    setTournamentBanner(`Replay: ${player1Name} vs ${player2Name}`, true);
+    hideOverlay();
+
+    launchMatch(replay.selection, {
+        autoRestartOnVictory: false,
+        victorySubtext: 'Replay complete. R: rewind | ESC: back to setup',
+        playerDisplayNames: replay.playerDisplayNames,
+        replay,
+    });
+}
+
 function syncSetupVisibility(): void {
     const normalSetup = document.getElementById('normalSetupSection');
     const tournamentOptions = document.getElementById('tournamentOptionsSection');
     const tournamentSetup = document.getElementById('tournamentSetupSection');
+    const trainingOptions = document.getElementById('trainingOptionsSection');
+    const matchRules = document.getElementById('matchRulesSection');
     const startButton = document.getElementById('startMatchButton');
     const description = document.getElementById('setupDescription');
     const summary = document.getElementById('selectedCharactersSummary');
@@ -122,13 +530,23 @@ function syncSetupVisibility(): void {
         return;
     }
 
+    trainingOptions?.classList.toggle('hidden', currentMode !== 'training');
+    matchRules?.classList.toggle('hidden', currentMode === 'training');
+
     if (currentMode === 'normal') {
         normalSetup.classList.remove('hidden');
         tournamentOptions.classList.add('hidden');
         tournamentSetup.classList.add('hidden');
         startButton.textContent = 'Start Match';
-        description.textContent = 'Choose 2 players and start a classic 1v1 duel.';
+        description.textContent = 'Choose 2 players and start a classic 1v1 duel, or set a side to vs CPU.';
         summary.textContent = 'Normal mode: choose 2 players and start.';
+    } else if (currentMode === 'training') {
+        normalSetup.classList.remove('hidden');
+        tournamentOptions.classList.add('hidden');
+        tournamentSetup.classList.add('hidden');
+        startButton.textContent = 'Start Training';
+        description.textContent = 'Training mode: pick your character and the dummy (Player 2), then practice.';
+        summary.textContent = 'Training mode: set up the dummy and start.';
     } else {
         normalSetup.classList.add('hidden');
         tournamentOptions.classList.remove('hidden');
@@ -170,9 +588,18 @@ function renderCharacterOptions(
         const desc = document.createElement('p');
         desc.textContent = option.description;
 
+        const moveList = document.createElement('ul');
+        moveList.className = 'move-list';
+        option.specialMoves.forEach(move => {
+            const item = document.createElement('li');
+            item.textContent = move;
+            moveList.appendChild(item);
+        });
+
         card.appendChild(title);
         card.appendChild(modes);
         card.appendChild(desc);
+        card.appendChild(moveList);
 
         label.appendChild(input);
         label.appendChild(card);
@@ -180,6 +607,18 @@ function renderCharacterOptions(
     });
 }
 
+function renderControllerOptions(select: HTMLSelectElement, defaultController: PlayerController): void {
+    select.innerHTML = '';
+
+    CONTROLLER_OPTIONS.forEach(option => {
+        const optionElement = document.createElement('option');
+        optionElement.value = option.value;
+        optionElement.textContent = option.label;
+        optionElement.selected = option.value === defaultController;
+        select.appendChild(optionElement);
+    });
+}
+
 function renderTournamentParticipants(size: TournamentSize): void {
     const container = document.getElementById('tournamentParticipants');
     if (!container) return;
@@ -225,9 +664,21 @@ function renderTournamentParticipants(size: TournamentSize): void {
             characterSelect.appendChild(optionElement);
         });
 
+        const controllerLabel = document.createElement('label');
+        controllerLabel.className = 'field-label';
+        controllerLabel.textContent = 'Controlled by';
+        controllerLabel.setAttribute('for', `tournamentController${seed}`);
+
+        const controllerSelect = document.createElement('select');
+        controllerSelect.id = `tournamentController${seed}`;
+        controllerSelect.className = 'participant-controller-select';
+        renderControllerOptions(controllerSelect, 'Human');
+
         card.appendChild(title);
         card.appendChild(nameLabel);
         card.appendChild(nameInput);
+        card.appendChild(controllerLabel);
+        card.appendChild(controllerSelect);
         card.appendChild(characterLabel);
         card.appendChild(characterSelect);
         container.appendChild(card);
@@ -242,8 +693,10 @@ function startNormalMode(): void {
         return;
     }
 
-    const player1Name = readInputName('p1NameInput', 'Player 1');
-    const player2Name = readInputName('p2NameInput', 'Player 2');
+    const player1Controller = readSelectedController('p1ControllerSelect');
+    const player2Controller = readSelectedController('p2ControllerSelect');
+    const player1Name = readInputName('p1NameInput', getDefaultPlayerName('Player 1', player1Controller));
+    const player2Name = readInputName('p2NameInput', getDefaultPlayerName('Player 2', player2Controller));
 
     tournamentRuntime = null;
     setTournamentBanner(`${player1Name} vs ${player2Name}`, false);
@@ -261,6 +714,13 @@ function startNormalMode(): void {
                 Player1: player1Name,
                 Player2: player2Name,
             },
+            controllers: {
+                Player1: player1Controller,
+                Player2: player2Controller,
+            },
+            inputSources: readInputSources(),
+            rules: readMatchRules(),
+            stage: readSelectedStage(),
         }
     );
 
@@ -272,6 +732,51 @@ function startNormalMode(): void {
     }
 }
 
+function startTrainingMode(): void {
+    const player1Type = getSelectedCharacterType('p1-character');
+    const dummyType = getSelectedCharacterType('p2-character');
+
+    if (!player1Type || !dummyType) {
+        return;
+    }
+
+    const player1Name = readInputName('p1NameInput', 'Player 1');
+    const options = readTrainingOptions();
+
+    tournamentRuntime = null;
+    setTournamentBanner(`Training: ${player1Name} vs Dummy`, true);
+    hideOverlay();
+
+    launchMatch(
+        {
+            Player1: player1Type,
+            Player2: dummyType,
+        },
+        {
+            autoRestartOnVictory: true,
+            victorySubtext: 'Restarting in 3 seconds...',
+            playerDisplayNames: {
+                Player1: player1Name,
+                Player2: 'Dummy',
+            },
+            controllers: {
+                Player1: 'Human',
+                Player2: 'Human',
+            },
+            inputSources: readInputSources(),
+            stage: readSelectedStage(),
+            training: options,
+        }
+    );
+
+    const summary = document.getElementById('selectedCharactersSummary');
+    if (summary) {
+        summary.textContent =
+            `Training started: ${player1Name} (${CharacterFactory.getCharacterName(player1Type)}) vs ` +
+            `Dummy (${CharacterFactory.getCharacterName(dummyType)}, ${describeDummyBehavior(options.dummyBehavior)})`;
+    }
+}
+
 function startTournamentMode(): void {
     clearTournamentFinalTimeout();
     hideTournamentFinalOverlay();
@@ -348,8 +853,9 @@ function runNextTournamentMatch(): void {
         return;
     }
 
+    const matchLabel = match.suddenDeath ? 'Sudden Death' : `Match ${match.matchNumber}`;
     setTournamentBanner(
-        `Round ${match.round} - Match ${match.matchNumber}: ${match.player1.name} vs ${match.player2.name}`,
+        `Round ${match.round} - ${matchLabel}: ${match.player1.name} vs ${match.player2.name}`,
         true
     );
 
@@ -365,25 +871,38 @@ function runNextTournamentMatch(): void {
                 Player1: match.player1.name,
                 Player2: match.player2.name,
             },
-            onMatchEnd: winner => {
-                handleTournamentMatchEnd(match, winner);
+            controllers: {
+                Player1: match.player1.controller,
+                Player2: match.player2.controller,
+            },
+            inputSources: readInputSources(),
+            rules: match.suddenDeath ? SUDDEN_DEATH_RULES : readMatchRules(),
+            stage: readSelectedStage(),
+            onMatchEnd: outcome => {
+                handleTournamentMatchEnd(match, outcome);
             },
         }
     );
 }
 
-function handleTournamentMatchEnd(match: TournamentMatch, winner: PlayerId): void {
+function handleTournamentMatchEnd(match: TournamentMatch, outcome: MatchOutcome): void {
     const state = tournamentRuntime;
     if (!state) return;
 
-    const winningParticipant = winner === 'Player1' ? match.player1 : match.player2;
-    const losingParticipant = winner === 'Player1' ? match.player2 : match.player1;
+    if (outcome === 'Draw') {
+        // Nobody is eliminated on a draw: the same pair plays again right away
+        state.pendingMatches.unshift({ ...match, suddenDeath: true });
+        setTournamentBanner(`Draw! ${match.player1.name} and ${match.player2.name} go to sudden death`, true);
+    } else {
+        const winningParticipant = outcome === 'Player1' ? match.player1 : match.player2;
+        const losingParticipant = outcome === 'Player1' ? match.player2 : match.player1;
 
-    state.nextRoundParticipants.push(winningParticipant);
-    state.roundEliminated.push(losingParticipant);
-    state.eliminatedOrder.push(losingParticipant);
+        state.nextRoundParticipants.push(winningParticipant);
+        state.roundEliminated.push(losingParticipant);
+        state.eliminatedOrder.push(losingParticipant);
 
-    setTournamentBanner(`${winningParticipant.name} advanced to next round`, true);
+        setTournamentBanner(`${winningParticipant.name} advanced to next round`, true);
+    }
 
     window.setTimeout(() => {
         if (!tournamentRuntime) return;
@@ -761,8 +1280,9 @@ function collectTournamentParticipants(): DuelParticipant[] {
     for (let seed = 1; seed <= currentTournamentSize; seed++) {
         const nameInput = document.getElementById(`tournamentName${seed}`) as HTMLInputElement | null;
         const characterSelect = document.getElementById(`tournamentCharacter${seed}`) as HTMLSelectElement | null;
+        const controller = readSelectedController(`tournamentController${seed}`);
 
-        const fallbackName = `Player ${seed}`;
+        const fallbackName = getDefaultPlayerName(`Player ${seed}`, controller);
         const name = nameInput?.value.trim() || fallbackName;
 
         const selectedType = characterSelect?.value ?? 'Fighter';
@@ -772,6 +1292,7 @@ function collectTournamentParticipants(): DuelParticipant[] {
             seed,
             name,
             character,
+            controller,
         });
     }
 
@@ -799,13 +1320,29 @@ function readInputName(inputId: string, fallback: string): string {
     return input?.value.trim() || fallback;
 }
 
+function readSelectedController(selectId: string): PlayerController {
+    const select = document.getElementById(selectId) as HTMLSelectElement | null;
+    const option = CONTROLLER_OPTIONS.find(candidate => candidate.value === select?.value);
+    return option?.value ?? 'Human';
+}
+
+function getDefaultPlayerName(humanName: string, controller: PlayerController): string {
+    return controller === 'Human' ? humanName : `CPU (${controller})`;
+}
+
 function launchMatch(
     selection: MatchCharacterSelection,
     flowOptions: {
         autoRestartOnVictory: boolean;
         victorySubtext: string;
         playerDisplayNames: Record<PlayerId, string>;
-        onMatchEnd?: (winner: PlayerId) => void;
+        onMatchEnd?: (outcome: MatchOutcome) => void;
+        controllers?: Record<PlayerId, PlayerController>;
+        inputSources?: Record<PlayerId, InputSource>;
+        rules?: MatchRules;
+        stage?: StageId;
+        replay?: ReplayData;
+        training?: TrainingOptions;
     }
 ): void {
     const canvas = document.getElementById('gameCanvas') as HTMLCanvasElement | null;
@@ -817,7 +1354,11 @@ function launchMatch(
 
     try {
         const engine = GameEngine.getInstance(canvas);
-        engine.init(selection, flowOptions);
+        engine.init(selection, {
+            ...flowOptions,
+            keyBindings: keyBindingStore.load(),
+            onPauseRequest: openPauseMenu,
+        });
 
         if (!gameStarted) {
             engine.start();
@@ -839,7 +1380,7 @@ function bindGlobalShortcuts(): void {
     }
 
     window.addEventListener('keydown', event => {
-        if (event.code === 'Escape') {
+        if (event.code === GLOBAL_SHORTCUT_KEYS.backToSetup) {
             if (isEditableElementTarget(event.target) || isGameplayInputBlockedByUI()) {
                 return;
             }
@@ -857,12 +1398,39 @@ function bindGlobalShortcuts(): void {
             return;
         }
 
-        if (event.code === 'KeyR') {
+        if (event.code === GLOBAL_SHORTCUT_KEYS.restart) {
             currentEngine.restart();
         }
 
-        if (event.code === 'KeyP') {
-            currentEngine.togglePause();
+        if (event.code === GLOBAL_SHORTCUT_KEYS.pause) {
+            if (currentEngine.isReplayPlayback()) {
+                currentEngine.togglePause();
+            } else {
+                openPauseMenu();
+            }
+        }
+
+        if (event.code === GLOBAL_SHORTCUT_KEYS.hitboxOverlay) {
+            event.preventDefault();
+            toggleHitboxOverlay();
+        }
+
+        if (event.code === GLOBAL_SHORTCUT_KEYS.trainingRecord && currentEngine.isTrainingMode()) {
+            currentEngine.toggleTrainingRecording();
+        }
+
+        if (currentEngine.isReplayPlayback()) {
+            if (event.code === 'Period') {
+                currentEngine.stepPlaybackFrame();
+            }
+
+            if (event.code === 'Minus') {
+                currentEngine.changePlaybackSpeed(-1);
+            }
+
+            if (event.code === 'Equal') {
+                currentEngine.changePlaybackSpeed(1);
+            }
         }
     });
 
@@ -870,6 +1438,7 @@ function bindGlobalShortcuts(): void {
 }
 
 function returnToSetupScreen(): void {
+    pauseMenu?.close();
     clearTournamentFinalTimeout();
     hideRoundProgressOverlay();
     hideTournamentFinalOverlay();
@@ -884,12 +1453,17 @@ function returnToSetupScreen(): void {
     gameStarted = false;
     showOverlay();
     syncSetupVisibility();
+    refreshReplayControls();
 
     const summary = document.getElementById('selectedCharactersSummary');
     if (summary) {
-        summary.textContent = currentMode === 'normal'
-            ? 'Back to setup. Choose characters and press Start Match.'
-            : `Back to setup. Configure ${currentTournamentSize} competitors and press Start Tournament.`;
+        if (currentMode === 'normal') {
+            summary.textContent = 'Back to setup. Choose characters and press Start Match.';
+        } else if (currentMode === 'training') {
+            summary.textContent = 'Back to setup. Set up the dummy and press Start Training.';
+        } else {
+            summary.textContent = `Back to setup. Configure ${currentTournamentSize} competitors and press Start Tournament.`;
+        }
     }
 }
 
@@ -940,6 +1514,8 @@ function isGameplayInputBlockedByUI(): boolean {
     const setupOpen = !document.getElementById('characterSelectOverlay')?.classList.contains('hidden');
     const roundOverlayOpen = !document.getElementById('tournamentRoundOverlay')?.classList.contains('hidden');
     const finalOverlayOpen = !document.getElementById('tournamentFinalOverlay')?.classList.contains('hidden');
+    const controlsOpen = controlsScreen?.isOpen() ?? false;
+    const pauseOpen = pauseMenu?.isOpen() ?? false;
 
-    return setupOpen || roundOverlayOpen || finalOverlayOpen;
+    return setupOpen || roundOverlayOpen || finalOverlayOpen || controlsOpen || pauseOpen;
 }
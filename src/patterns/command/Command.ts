@@ -60,6 +60,28 @@ export class AttackCommand implements ICommand {
     }
 }
 
+/**
+ * Block command - raises or lowers the guard while held
+ */
+export class BlockCommand implements ICommand {
+    constructor(private readonly pressed: boolean) { }
+
+    execute(character: Character): void {
+        character.inputFlags.block = this.pressed;
+    }
+}
+
+/**
+ * Throw command - grabs a nearby opponent, or escapes their grab
+ */
+export class ThrowCommand implements ICommand {
+    constructor(private readonly pressed: boolean) { }
+
+    execute(character: Character): void {
+        character.inputFlags.throw = this.pressed;
+    }
+}
+
 /**
  * Switch Mode command - toggles between Fire and Water modes
  * This is the key command for the Strategy Pattern demonstration
@@ -7,7 +7,10 @@ import { Character } from '../../entities/Character';
 import type {
     CharacterSelectionOption,
     CharacterType,
+    KeyBindings,
+    NumpadDirection,
     PlayerId,
+    SpecialMoveDefinition,
     Vector2
 } from '../../types';
 import {
@@ -23,7 +26,8 @@ import {
     PLAYER1_START,
     PLAYER2_START,
     PLAYER1_KEYS,
-    PLAYER2_KEYS
+    PLAYER2_KEYS,
+    SUPER_MOVE_METER_COST
 } from '../../constants/GameConfig';
 
 interface CharacterBlueprint {
@@ -31,15 +35,72 @@ interface CharacterBlueprint {
     name: string;
     description: string;
     modes: CharacterSelectionOption['modes'];
+    /** Move list, checked in order; each special belongs to one mode, the super to both */
+    specialMoves: readonly SpecialMoveDefinition[];
     createModes(): [IElementalMode, IElementalMode];
 }
 
+const MOTION_ARROWS: Record<NumpadDirection, string> = {
+    1: '↙', 2: '↓', 3: '↘', 4: '←', 5: '•', 6: '→', 7: '↖', 8: '↑', 9: '↗',
+};
+
 const CHARACTER_BLUEPRINTS: Record<CharacterType, CharacterBlueprint> = {
     Fighter: {
         type: 'Fighter',
         name: 'Elemental Fighter',
         description: 'Classic balanced duelist with Fire / Water stance play.',
         modes: ['Fire', 'Water'],
+        specialMoves: [
+            {
+                // Super: pillar of steam where fire meets water
+                name: 'Steam Eruption',
+                motion: [2, 6, 2, 6],
+                button: 'attack',
+                startupFrames: 6,
+                activeFrames: 16,
+                recoveryFrames: 30,
+                hitbox: { offsetX: -10, offsetY: -40, width: 140, height: 160 },
+                damage: 30,
+                knockback: { x: 260, y: -480 },
+                hitStun: 700,
+                particleType: 'fire',
+                meterCost: SUPER_MOVE_METER_COST,
+                cinematic: true,
+            },
+            {
+                // Wave of flame that rolls forward along the ground
+                name: 'Flame Wave',
+                mode: 'Fire',
+                motion: [2, 6],
+                button: 'attack',
+                startupFrames: 12,
+                activeFrames: 30,
+                recoveryFrames: 16,
+                hitbox: { offsetX: 0, offsetY: 50, width: 50, height: 50 },
+                projectile: { speed: 420, width: 50, height: 50, lifetime: 900 },
+                damage: 12,
+                knockback: { x: 240, y: -60 },
+                hitStun: 260,
+                particleType: 'fire',
+                height: 'low',
+            },
+            {
+                // Rising anti-air geyser
+                name: 'Tidal Riser',
+                mode: 'Water',
+                motion: [6, 2, 3],
+                button: 'attack',
+                startupFrames: 4,
+                activeFrames: 12,
+                recoveryFrames: 22,
+                hitbox: { offsetX: -10, offsetY: -30, width: 60, height: 110 },
+                lift: -520,
+                damage: 14,
+                knockback: { x: 120, y: -380 },
+                hitStun: 320,
+                particleType: 'water',
+            },
+        ],
         createModes: () => [new FireModeStrategy(), new WaterModeStrategy()],
     },
     Geomancer: {
@@ -47,6 +108,57 @@ const CHARACTER_BLUEPRINTS: Record<CharacterType, CharacterBlueprint> = {
         name: 'Geo Tempest',
         description: 'Earth / Wind specialist. Wind can glide and control air.',
         modes: ['Earth', 'Wind'],
+        specialMoves: [
+            {
+                // Super: rock-laden tornado that carries the Geomancer forward
+                name: 'Tempest Quake',
+                motion: [2, 6, 2, 6],
+                button: 'attack',
+                startupFrames: 8,
+                activeFrames: 20,
+                recoveryFrames: 26,
+                hitbox: { offsetX: -20, offsetY: 0, width: 110, height: 120 },
+                moveSpeed: 420,
+                damage: 28,
+                knockback: { x: 380, y: -320 },
+                hitStun: 650,
+                particleType: 'earth',
+                meterCost: SUPER_MOVE_METER_COST,
+                cinematic: true,
+            },
+            {
+                // Ground pound whose shockwave covers both sides at foot level
+                name: 'Quake Slam',
+                mode: 'Earth',
+                motion: [2, 4],
+                button: 'attack',
+                startupFrames: 16,
+                activeFrames: 8,
+                recoveryFrames: 24,
+                hitbox: { offsetX: -140, offsetY: 90, width: 200, height: 40 },
+                damage: 16,
+                knockback: { x: 160, y: -260 },
+                hitStun: 340,
+                particleType: 'earth',
+                height: 'low',
+            },
+            {
+                // Forward dash wrapped in wind
+                name: 'Gale Rush',
+                mode: 'Wind',
+                motion: [2, 6],
+                button: 'attack',
+                startupFrames: 6,
+                activeFrames: 14,
+                recoveryFrames: 14,
+                hitbox: { offsetX: 0, offsetY: 20, width: 40, height: 80 },
+                moveSpeed: 700,
+                damage: 9,
+                knockback: { x: 300, y: -40 },
+                hitStun: 220,
+                particleType: 'wind',
+            },
+        ],
         createModes: () => [new EarthModeStrategy(), new WindModeStrategy()],
     },
     Eclipse: {
@@ -54,6 +166,54 @@ const CHARACTER_BLUEPRINTS: Record<CharacterType, CharacterBlueprint> = {
         name: 'Eclipse Warden',
         description: 'Light / Dark specialist. Dark absorbs damage to empower Light beam.',
         modes: ['Light', 'Dark'],
+        specialMoves: [
+            {
+                // Super: screen-wide eclipse beam
+                name: 'Total Eclipse',
+                motion: [2, 6, 2, 6],
+                button: 'attack',
+                startupFrames: 10,
+                activeFrames: 10,
+                recoveryFrames: 30,
+                hitbox: { offsetX: 0, offsetY: 20, width: 760, height: 60 },
+                damage: 26,
+                knockback: { x: 300, y: -120 },
+                hitStun: 600,
+                particleType: 'dark',
+                meterCost: SUPER_MOVE_METER_COST,
+                cinematic: true,
+            },
+            {
+                // Long, thin beam of light
+                name: 'Prism Lance',
+                mode: 'Light',
+                motion: [2, 6],
+                button: 'attack',
+                startupFrames: 14,
+                activeFrames: 6,
+                recoveryFrames: 20,
+                hitbox: { offsetX: 0, offsetY: 38, width: 420, height: 24 },
+                damage: 11,
+                knockback: { x: 220, y: -30 },
+                hitStun: 240,
+                particleType: 'light',
+            },
+            {
+                // Close grab that holds the target in place
+                name: 'Umbral Grasp',
+                mode: 'Dark',
+                motion: [2, 4],
+                button: 'attack',
+                startupFrames: 8,
+                activeFrames: 6,
+                recoveryFrames: 18,
+                hitbox: { offsetX: 0, offsetY: 10, width: 90, height: 100 },
+                damage: 13,
+                knockback: { x: 40, y: 0 },
+                hitStun: 420,
+                particleType: 'dark',
+            },
+        ],
         createModes: () => [new LightModeStrategy(), new DarkModeStrategy()],
     },
 };
@@ -73,6 +233,7 @@ export class CharacterFactory {
                 name: blueprint.name,
                 description: blueprint.description,
                 modes: blueprint.modes,
+                specialMoves: blueprint.specialMoves.map(CharacterFactory.describeSpecialMove),
             };
         });
     }
@@ -81,16 +242,34 @@ export class CharacterFactory {
         return CHARACTER_BLUEPRINTS[type].name;
     }
 
+    /**
+     * Move list line, e.g. "Flame Wave (Fire): ↓ → + Attack"
+     */
+    static describeSpecialMove(move: SpecialMoveDefinition): string {
+        const button = move.button === 'attack' ? 'Attack' : 'Block';
+        const mode = move.meterCost ? ' (Super)' : move.mode ? ` (${move.mode})` : '';
+        return `${move.name}${mode}: ${CharacterFactory.formatMotion(move.motion)} + ${button}`;
+    }
+
+    /**
+     * Motion as arrows for a character facing right, e.g. [2, 6] -> "↓ →"
+     */
+    static formatMotion(motion: readonly NumpadDirection[]): string {
+        return motion.map(direction => MOTION_ARROWS[direction]).join(' ');
+    }
+
     /**
      * Create a player character
      * @param playerId - Player identifier (Player1 or Player2)
      * @param characterType - Character archetype
      * @param customPosition - Optional custom starting position
+     * @param customKeyBindings - Optional rebound keys (defaults per player otherwise)
      */
     static createPlayer(
         playerId: PlayerId,
         characterType: CharacterType = 'Fighter',
-        customPosition?: Vector2
+        customPosition?: Vector2,
+        customKeyBindings?: KeyBindings
     ): Character {
         const blueprint = CHARACTER_BLUEPRINTS[characterType];
 
@@ -99,7 +278,7 @@ export class CharacterFactory {
             (playerId === 'Player1' ? PLAYER1_START : PLAYER2_START);
 
         // Determine key bindings
-        const keyBindings = playerId === 'Player1' ? PLAYER1_KEYS : PLAYER2_KEYS;
+        const keyBindings = { ...(customKeyBindings ?? (playerId === 'Player1' ? PLAYER1_KEYS : PLAYER2_KEYS)) };
 
         // Determine facing direction
         const facingRight = playerId === 'Player1';
@@ -111,7 +290,8 @@ export class CharacterFactory {
             { x: position.x, y: position.y },
             keyBindings,
             facingRight,
-            blueprint.createModes()
+            blueprint.createModes(),
+            blueprint.specialMoves
         );
 
         return character;
@@ -122,10 +302,11 @@ export class CharacterFactory {
      */
     static createMatchPlayers(
         player1Type: CharacterType = 'Fighter',
-        player2Type: CharacterType = 'Fighter'
+        player2Type: CharacterType = 'Fighter',
+        keyBindings?: Partial<Record<PlayerId, KeyBindings>>
     ): [Character, Character] {
-        const player1 = CharacterFactory.createPlayer('Player1', player1Type);
-        const player2 = CharacterFactory.createPlayer('Player2', player2Type);
+        const player1 = CharacterFactory.createPlayer('Player1', player1Type, undefined, keyBindings?.Player1);
+        const player2 = CharacterFactory.createPlayer('Player2', player2Type, undefined, keyBindings?.Player2);
 
         // Set opponents
         player1.setOpponent(player2);
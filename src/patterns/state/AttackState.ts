@@ -1,6 +1,7 @@
 /**
  * Attack State
- * Handles attack execution and hit detection
+ * Handles attack execution and hit detection, including jumping normals
+ * and their landing recovery
  */
 
 import type { ICharacterState } from './ICharacterState';
@@ -12,25 +13,67 @@ export class AttackState implements ICharacterState {
 
     private attackTimer = 0;
     private hasHit = false;
+    /** Time spent in landing recovery, or null while the attack runs */
+    private landingTimer: number | null = null;
+    private landingRecovery = 0;
 
     enter(character: Character): void {
         this.attackTimer = 0;
         this.hasHit = false;
+        this.landingTimer = null;
         character.isAttacking = true;
+        character.inputBuffer.consume('attack');
         character.startAttackCooldown();
 
-        // Create attack hitbox
-        character.createAttackHitbox();
+        // Attacks started with down held come out as low crouching attacks
+        character.isCrouching = character.inputFlags.down && character.isGrounded;
+
+        // Block pressed with attack spends a bar on the EX version
+        character.tryStartExAttack();
+
+        // Jumping attacks always swing the mode's aerial hitbox; on the ground
+        // ranged modes launch a projectile and melee modes swing a hitbox
+        const aerial = character.startAerialAttack();
+        if (aerial || !character.fireModeProjectile()) {
+            character.createAttackHitbox();
+        }
     }
 
     update(character: Character, deltaTime: number): void {
         this.attackTimer += deltaTime * 1000; // Convert to ms
 
-        // Apply gravity even during attack
-        character.applyGravity(deltaTime);
+        if (this.landingTimer !== null) {
+            this.landingTimer += deltaTime * 1000;
+            return;
+        }
+
+        const aerial = character.getAerialAttack();
+        if (aerial?.dashSpeed) {
+            // Air dash: fly straight forward, gravity waits until it ends
+            character.velocity.x = aerial.dashSpeed * (character.facingRight ? 1 : -1);
+            character.velocity.y = 0;
+        } else {
+            // Apply gravity even during attack
+            character.applyGravity(deltaTime);
+        }
+
+        // Jumping attacks keep the jump's momentum
+        if (aerial) {
+            character.position.x += character.velocity.x * deltaTime;
+            character.checkBoundaries();
+        }
         character.position.y += character.velocity.y * deltaTime;
         character.checkGroundCollision();
 
+        // Touching down mid-attack cuts it short with landing recovery
+        if (aerial && character.isGrounded) {
+            this.landingTimer = 0;
+            this.landingRecovery = aerial.landingRecovery;
+            character.velocity.x = 0;
+            character.removeAttackHitbox();
+            return;
+        }
+
         // Update hitbox position
         character.updateAttackHitbox();
 
@@ -45,12 +88,19 @@ export class AttackState implements ICharacterState {
 
     exit(character: Character): void {
         character.isAttacking = false;
+        character.isExAttack = false;
+        character.isCrouching = false;
+        character.endAerialAttack();
         character.removeAttackHitbox();
     }
 
     canTransition(character: Character): ICharacterState | null {
-        // Attack finished
-        if (this.attackTimer >= ATTACK_DURATION) {
+        if (this.landingTimer !== null && this.landingTimer < this.landingRecovery) {
+            return null;
+        }
+
+        // Attack finished, or landing recovery over
+        if (this.landingTimer !== null || this.attackTimer >= ATTACK_DURATION) {
             // Return to appropriate state
             if (character.inputFlags.moving) {
                 return character.states.move;
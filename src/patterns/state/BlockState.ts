@@ -0,0 +1,86 @@
+/**
+ * Block State
+ * Character holds a guard that absorbs attacks coming from the front
+ */
+
+import type { ICharacterState } from './ICharacterState';
+import type { Character } from '../../entities/Character';
+
+export class BlockState implements ICharacterState {
+    readonly name = 'block';
+
+    private blockStunTimer = 0;
+    private blockStunDuration = 0;
+
+    enter(character: Character): void {
+        this.blockStunTimer = 0;
+        this.blockStunDuration = character.lastBlockStun;
+        character.lastBlockStun = 0;
+        character.isBlocking = true;
+        character.isCrouching = character.inputFlags.down;
+        character.velocity.x = 0;
+
+        // Raising guard turns the character toward the opponent
+        character.faceOpponent();
+    }
+
+    update(character: Character, deltaTime: number): void {
+        // Down held guards low, otherwise high
+        character.isCrouching = character.inputFlags.down;
+
+        if (this.isInBlockStun()) {
+            this.blockStunTimer += deltaTime * 1000;
+
+            // Guard pushback decays like hit knockback
+            character.velocity.x *= 0.85;
+            character.position.x += character.velocity.x * deltaTime;
+        }
+
+        // Apply gravity
+        character.applyGravity(deltaTime);
+        character.position.y += character.velocity.y * deltaTime;
+
+        // Check collisions
+        character.checkGroundCollision();
+        character.checkBoundaries();
+    }
+
+    exit(character: Character): void {
+        character.isBlocking = false;
+        character.isCrouching = false;
+        character.velocity.x = 0;
+    }
+
+    canTransition(character: Character): ICharacterState | null {
+        // Blockstun locks the guard until it wears off
+        if (this.isInBlockStun()) {
+            return null;
+        }
+
+        if (character.queueSpecialMove()) {
+            return character.states.special;
+        }
+
+        // Throws come out of the guard, so blocking is never fully safe up close
+        if (character.isThrowRequested() && character.canThrow()) {
+            return character.states.throw;
+        }
+
+        if (character.isAttackRequested() && character.canAttack()) {
+            return character.states.attack;
+        }
+
+        if (!character.inputFlags.block) {
+            if (character.inputFlags.moving) {
+                return character.states.move;
+            }
+            return character.states.idle;
+        }
+
+        return null;
+    }
+
+    isInBlockStun(): boolean {
+        return this.blockStunTimer < this.blockStunDuration;
+    }
+}
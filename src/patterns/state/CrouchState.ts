@@ -0,0 +1,53 @@
+/**
+ * Crouch State
+ * Character ducks while down is held: a shorter hurtbox, low attacks and a low guard
+ */
+
+import type { ICharacterState } from './ICharacterState';
+import type { Character } from '../../entities/Character';
+
+export class CrouchState implements ICharacterState {
+    readonly name = 'crouch';
+
+    enter(character: Character): void {
+        character.isCrouching = true;
+        character.velocity.x = 0;
+    }
+
+    update(character: Character, deltaTime: number): void {
+        // No walking while crouched; only gravity applies
+        character.applyGravity(deltaTime);
+        character.position.y += character.velocity.y * deltaTime;
+        character.checkGroundCollision();
+    }
+
+    exit(character: Character): void {
+        character.isCrouching = false;
+    }
+
+    canTransition(character: Character): ICharacterState | null {
+        // Priority: Special > Throw > Attack > Block > Stand up
+        if (character.queueSpecialMove()) {
+            return character.states.special;
+        }
+
+        if (character.isThrowRequested() && character.canThrow()) {
+            return character.states.throw;
+        }
+
+        // Attack and block keep the crouch while down is held
+        if (character.isAttackRequested() && character.canAttack()) {
+            return character.states.attack;
+        }
+
+        if (character.inputFlags.block) {
+            return character.states.block;
+        }
+
+        if (!character.inputFlags.down) {
+            return character.inputFlags.moving ? character.states.move : character.states.idle;
+        }
+
+        return null;
+    }
+}
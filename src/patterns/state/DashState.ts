@@ -0,0 +1,73 @@
+/**
+ * Dash State
+ * Quick burst of movement from a double tap: forward dash, backdash (briefly
+ * invulnerable) or air dash, with distances set by the elemental mode
+ */
+
+import type { ICharacterState } from './ICharacterState';
+import type { Character } from '../../entities/Character';
+import { BACKDASH_INVULNERABILITY, DASH_DURATION } from '../../constants/GameConfig';
+
+export class DashState implements ICharacterState {
+    readonly name = 'dash';
+
+    private timer = 0;
+    private invulnerability = 0;
+    private airborne = false;
+
+    enter(character: Character): void {
+        const direction = character.startDash();
+        const profile = character.getElementalMode().dash;
+
+        this.timer = 0;
+        this.airborne = !character.isGrounded;
+        character.faceOpponent();
+
+        let distance: number;
+        if (this.airborne) {
+            distance = profile.airDashDistance;
+            character.velocity.y = 0;
+        } else {
+            distance = direction === 'back' ? profile.backdashDistance : profile.distance;
+        }
+
+        const forward = character.facingRight ? 1 : -1;
+        const sign = direction === 'back' ? -forward : forward;
+        character.velocity.x = sign * distance / (DASH_DURATION / 1000);
+
+        // Only grounded backdashes escape attacks
+        this.invulnerability = direction === 'back' && !this.airborne ? BACKDASH_INVULNERABILITY : 0;
+        character.isInvulnerable = this.invulnerability > 0;
+    }
+
+    update(character: Character, deltaTime: number): void {
+        this.timer += deltaTime * 1000;
+
+        if (character.isInvulnerable && this.timer >= this.invulnerability) {
+            character.isInvulnerable = false;
+        }
+
+        // Air dashes hold their height until they end
+        if (!this.airborne) {
+            character.applyGravity(deltaTime);
+        }
+
+        character.position.x += character.velocity.x * deltaTime;
+        character.position.y += character.velocity.y * deltaTime;
+        character.checkGroundCollision();
+        character.checkBoundaries();
+    }
+
+    exit(character: Character): void {
+        character.isInvulnerable = false;
+        character.velocity.x = 0;
+    }
+
+    canTransition(character: Character): ICharacterState | null {
+        if (this.timer < DASH_DURATION) {
+            return null;
+        }
+
+        return character.inputFlags.moving ? character.states.move : character.states.idle;
+    }
+}
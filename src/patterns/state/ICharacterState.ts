@@ -1,6 +1,6 @@
 /**
  * State Pattern - ICharacterState Interface
- * Manages character behavior states (Idle, Move, Attack, Hit)
+ * Manages character behavior states (Idle, Move, Crouch, Attack, Hit, Block, Special, Throw, Dash)
  */
 
 import type { Character } from '../../entities/Character';
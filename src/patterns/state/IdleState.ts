@@ -15,8 +15,9 @@ export class IdleState implements ICharacterState {
     }
 
     update(character: Character, deltaTime: number): void {
-        // Apply gravity
+        // Apply gravity (falls off ledges and through platforms from a standstill)
         character.applyGravity(deltaTime);
+        character.position.y += character.velocity.y * deltaTime;
 
         // Check for ground collision
         character.checkGroundCollision();
@@ -28,10 +29,30 @@ export class IdleState implements ICharacterState {
 
     canTransition(character: Character): ICharacterState | null {
         // Check if character should transition based on input flags
-        if (character.inputFlags.attack && character.canAttack()) {
+        if (character.queueSpecialMove()) {
+            return character.states.special;
+        }
+
+        if (character.isThrowRequested() && character.canThrow()) {
+            return character.states.throw;
+        }
+
+        if (character.isAttackRequested() && character.canAttack()) {
             return character.states.attack;
         }
 
+        if (character.inputFlags.block && character.isGrounded) {
+            return character.states.block;
+        }
+
+        if (character.queueDash()) {
+            return character.states.dash;
+        }
+
+        if (character.inputFlags.down && character.isGrounded) {
+            return character.states.crouch;
+        }
+
         if (character.inputFlags.moving) {
             return character.states.move;
         }
@@ -55,15 +55,38 @@ export class MoveState implements ICharacterState {
     }
 
     exit(character: Character): void {
-        character.velocity.x = 0;
+        // Jumping attacks carry the jump's momentum
+        if (character.isGrounded) {
+            character.velocity.x = 0;
+        }
     }
 
     canTransition(character: Character): ICharacterState | null {
-        // Priority: Attack > Idle (when not moving)
-        if (character.inputFlags.attack && character.canAttack()) {
+        // Priority: Special > Throw > Attack > Block > Dash > Crouch > Idle (when not moving)
+        if (character.queueSpecialMove()) {
+            return character.states.special;
+        }
+
+        if (character.isThrowRequested() && character.canThrow()) {
+            return character.states.throw;
+        }
+
+        if (character.isAttackRequested() && character.canAttack()) {
             return character.states.attack;
         }
 
+        if (character.inputFlags.block && character.isGrounded) {
+            return character.states.block;
+        }
+
+        if (character.queueDash()) {
+            return character.states.dash;
+        }
+
+        if (character.inputFlags.down && character.isGrounded) {
+            return character.states.crouch;
+        }
+
         if (!character.inputFlags.moving) {
             return character.states.idle;
         }
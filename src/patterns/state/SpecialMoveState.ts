@@ -0,0 +1,101 @@
+/**
+ * Special Move State
+ * Runs a motion-input special through its startup, active and recovery frames
+ */
+
+import type { ICharacterState } from './ICharacterState';
+import type { Character } from '../../entities/Character';
+import type { SpecialMoveDefinition } from '../../types';
+
+export class SpecialMoveState implements ICharacterState {
+    readonly name = 'special';
+
+    private move: SpecialMoveDefinition | null = null;
+    private frame = 0;
+    private hasHit = false;
+
+    enter(character: Character): void {
+        this.move = character.startSpecialMove();
+        this.frame = 0;
+        this.hasHit = false;
+        character.isAttacking = true;
+        character.velocity.x = 0;
+        character.faceOpponent();
+        character.startAttackCooldown();
+    }
+
+    update(character: Character, deltaTime: number): void {
+        this.frame++;
+
+        const move = this.move;
+        if (!move) {
+            this.applyMovement(character, deltaTime);
+            return;
+        }
+
+        const isActive =
+            this.frame > move.startupFrames &&
+            this.frame <= move.startupFrames + move.activeFrames;
+        const direction = character.facingRight ? 1 : -1;
+
+        if (this.frame === move.startupFrames + 1) {
+            if (move.lift !== undefined) {
+                character.velocity.y = move.lift;
+                character.isGrounded = false;
+            }
+            // The projectile does the hitting from here on
+            if (move.projectile && character.fireSpecialMoveProjectile()) {
+                this.hasHit = true;
+            }
+        }
+
+        character.velocity.x = isActive ? (move.moveSpeed ?? 0) * direction : 0;
+
+        // Move the body first so the hitbox follows it this frame
+        this.applyMovement(character, deltaTime);
+
+        if (!isActive || this.hasHit) {
+            character.removeAttackHitbox();
+            return;
+        }
+
+        character.updateSpecialMoveHitbox();
+
+        // Check for hits (only once per special)
+        if (!this.hasHit && character.checkSpecialMoveHit()) {
+            this.hasHit = true;
+        }
+    }
+
+    exit(character: Character): void {
+        character.isAttacking = false;
+        character.velocity.x = 0;
+        character.endSpecialMove();
+        this.move = null;
+    }
+
+    canTransition(character: Character): ICharacterState | null {
+        const totalFrames = this.move
+            ? this.move.startupFrames + this.move.activeFrames + this.move.recoveryFrames
+            : 0;
+
+        // Rising specials finish on landing so their recovery cannot be
+        // cancelled with an air action
+        if (this.frame >= totalFrames && character.isGrounded) {
+            if (character.inputFlags.moving) {
+                return character.states.move;
+            }
+            return character.states.idle;
+        }
+
+        return null;
+    }
+
+    private applyMovement(character: Character, deltaTime: number): void {
+        character.applyGravity(deltaTime);
+        character.position.x += character.velocity.x * deltaTime;
+        character.position.y += character.velocity.y * deltaTime;
+        character.checkGroundCollision();
+        character.checkBoundaries();
+    }
+}
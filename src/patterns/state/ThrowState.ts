@@ -0,0 +1,102 @@
+/**
+ * Throw State
+ * Close-range grab that beats blocking: a short startup, then either a whiff
+ * or a hold during which the defender can tech it by pressing throw too
+ */
+
+import type { ICharacterState } from './ICharacterState';
+import type { Character } from '../../entities/Character';
+import {
+    THROW_ANIMATION_FRAMES,
+    THROW_STARTUP_FRAMES,
+    THROW_TECH_RECOVERY_FRAMES,
+    THROW_TECH_WINDOW_FRAMES,
+    THROW_WHIFF_RECOVERY_FRAMES
+} from '../../constants/GameConfig';
+
+export type ThrowPhase = 'startup' | 'whiff' | 'hold' | 'throwing' | 'teched';
+
+const PHASE_FRAMES: Record<ThrowPhase, number> = {
+    startup: THROW_STARTUP_FRAMES,
+    whiff: THROW_WHIFF_RECOVERY_FRAMES,
+    hold: THROW_TECH_WINDOW_FRAMES,
+    throwing: THROW_ANIMATION_FRAMES,
+    teched: THROW_TECH_RECOVERY_FRAMES,
+};
+
+export class ThrowState implements ICharacterState {
+    readonly name = 'throw';
+
+    private phase: ThrowPhase = 'startup';
+    private frame = 0;
+
+    enter(character: Character): void {
+        this.setPhase('startup');
+        character.isAttacking = true;
+        character.velocity.x = 0;
+        character.inputBuffer.consume('throw');
+        character.faceOpponent();
+        character.startAttackCooldown();
+    }
+
+    update(character: Character, deltaTime: number): void {
+        this.frame++;
+
+        // Pushback from a tech decays like guard pushback
+        character.velocity.x *= 0.85;
+        character.position.x += character.velocity.x * deltaTime;
+        character.applyGravity(deltaTime);
+        character.position.y += character.velocity.y * deltaTime;
+        character.checkGroundCollision();
+        character.checkBoundaries();
+
+        if (this.phase === 'hold' && character.isThrowTeched()) {
+            character.techThrow();
+            this.setPhase('teched');
+            return;
+        }
+
+        if (this.frame < PHASE_FRAMES[this.phase]) return;
+
+        if (this.phase === 'startup') {
+            this.setPhase(character.tryThrowGrab() ? 'hold' : 'whiff');
+        } else if (this.phase === 'hold') {
+            character.completeThrow();
+            this.setPhase('throwing');
+        }
+    }
+
+    exit(character: Character): void {
+        // Interrupted mid-grab (e.g. hit by a projectile): drop the opponent
+        if (this.phase === 'hold') {
+            character.releaseThrow();
+        }
+        character.isAttacking = false;
+        character.velocity.x = 0;
+    }
+
+    canTransition(character: Character): ICharacterState | null {
+        const isRecovery = this.phase === 'whiff' || this.phase === 'throwing' || this.phase === 'teched';
+        if (isRecovery && this.frame >= PHASE_FRAMES[this.phase]) {
+            return character.inputFlags.moving ? character.states.move : character.states.idle;
+        }
+
+        return null;
+    }
+
+    getPhase(): ThrowPhase {
+        return this.phase;
+    }
+
+    /**
+     * Skip to tech recovery (the defender who escaped the grab)
+     */
+    startTechRecovery(): void {
+        this.setPhase('teched');
+    }
+
+    private setPhase(phase: ThrowPhase): void {
+        this.phase = phase;
+        this.frame = 0;
+    }
+}
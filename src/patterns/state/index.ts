@@ -1,5 +1,10 @@
 export { type ICharacterState } from './ICharacterState';
 export { IdleState } from './IdleState';
 export { MoveState } from './MoveState';
+export { CrouchState } from './CrouchState';
 export { AttackState } from './AttackState';
 export { HitState } from './HitState';
+export { BlockState } from './BlockState';
+export { SpecialMoveState } from './SpecialMoveState';
+export { ThrowState, type ThrowPhase } from './ThrowState';
+export { DashState } from './DashState';
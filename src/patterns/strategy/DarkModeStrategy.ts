@@ -8,7 +8,9 @@ import type { IElementalMode } from './IElementalMode';
 import type { Character } from '../../entities/Character';
 import type { AttackResult, CharacterForm, VisualConfig } from '../../types';
 import {
+    AERIAL_ATTACKS,
     BASE_ATTACK_DAMAGE,
+    DASH_PROFILES,
     DARK_MODE,
     DARK_VISUAL,
     HIT_STUN_DURATION,
@@ -24,6 +26,10 @@ export class DarkModeStrategy implements IElementalMode {
     readonly attackRangeMultiplier = DARK_MODE.attackRangeMultiplier;
     readonly attackHeightMultiplier = DARK_MODE.attackHeightMultiplier;
     readonly attackEffect = 'slash' as const;
+    readonly projectile = null;
+    readonly aerialAttack = AERIAL_ATTACKS.Dark;
+    readonly airDashAttack = null;
+    readonly dash = DASH_PROFILES.Dark;
     readonly moveSpeedMultiplier = DARK_MODE.moveSpeedMultiplier;
     readonly jumpForceMultiplier = DARK_MODE.jumpForceMultiplier;
     readonly gravityMultiplier = DARK_MODE.gravityMultiplier;
@@ -42,6 +48,7 @@ export class DarkModeStrategy implements IElementalMode {
             },
             hitStun: HIT_STUN_DURATION * 0.9,
             particleType: 'dark',
+            element: this.name,
         };
     }
 
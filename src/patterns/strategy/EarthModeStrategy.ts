@@ -7,7 +7,9 @@ import type { IElementalMode } from './IElementalMode';
 import type { Character } from '../../entities/Character';
 import type { AttackResult, CharacterForm, VisualConfig } from '../../types';
 import {
+    AERIAL_ATTACKS,
     BASE_ATTACK_DAMAGE,
+    DASH_PROFILES,
     EARTH_MODE,
     EARTH_VISUAL,
     HIT_STUN_DURATION,
@@ -23,6 +25,10 @@ export class EarthModeStrategy implements IElementalMode {
     readonly attackRangeMultiplier = 1;
     readonly attackHeightMultiplier = 1;
     readonly attackEffect = 'slash' as const;
+    readonly projectile = null;
+    readonly aerialAttack = AERIAL_ATTACKS.Earth;
+    readonly airDashAttack = null;
+    readonly dash = DASH_PROFILES.Earth;
     readonly moveSpeedMultiplier = EARTH_MODE.moveSpeedMultiplier;
     readonly jumpForceMultiplier = EARTH_MODE.jumpForceMultiplier;
     readonly gravityMultiplier = EARTH_MODE.gravityMultiplier;
@@ -41,6 +47,7 @@ export class EarthModeStrategy implements IElementalMode {
             },
             hitStun: HIT_STUN_DURATION * 1.2,
             particleType: 'earth',
+            element: this.name,
         };
     }
 
@@ -7,7 +7,15 @@
 import type { IElementalMode } from './IElementalMode';
 import type { Character } from '../../entities/Character';
 import type { AttackResult, CharacterForm, VisualConfig } from '../../types';
-import { BASE_ATTACK_DAMAGE, FIRE_MODE, FIRE_VISUAL, KNOCKBACK_FORCE, HIT_STUN_DURATION } from '../../constants/GameConfig';
+import {
+    AERIAL_ATTACKS,
+    BASE_ATTACK_DAMAGE,
+    DASH_PROFILES,
+    FIRE_MODE,
+    FIRE_VISUAL,
+    KNOCKBACK_FORCE,
+    HIT_STUN_DURATION
+} from '../../constants/GameConfig';
 
 export class FireModeStrategy implements IElementalMode {
     readonly name = 'Fire';
@@ -18,6 +26,10 @@ export class FireModeStrategy implements IElementalMode {
     readonly attackRangeMultiplier = 1;
     readonly attackHeightMultiplier = 1;
     readonly attackEffect = 'slash' as const;
+    readonly projectile = null;
+    readonly aerialAttack = AERIAL_ATTACKS.Fire;
+    readonly airDashAttack = null;
+    readonly dash = DASH_PROFILES.Fire;
     readonly moveSpeedMultiplier = FIRE_MODE.moveSpeedMultiplier;
     readonly jumpForceMultiplier = FIRE_MODE.jumpForceMultiplier;
     readonly gravityMultiplier = FIRE_MODE.gravityMultiplier;
@@ -40,6 +52,7 @@ export class FireModeStrategy implements IElementalMode {
             },
             hitStun: HIT_STUN_DURATION,
             particleType: 'fire',
+            element: this.name,
         };
     }
 
@@ -4,7 +4,15 @@
  */
 
 import type { Character } from '../../entities/Character';
-import type { AttackResult, CharacterForm, ElementalMode, VisualConfig } from '../../types';
+import type {
+    AerialAttackProfile,
+    AttackResult,
+    CharacterForm,
+    DashProfile,
+    ElementalMode,
+    ProjectileProfile,
+    VisualConfig
+} from '../../types';
 
 /**
  * Strategy interface for elemental modes
@@ -35,6 +43,18 @@ export interface IElementalMode {
     /** Visual style for active attack */
     readonly attackEffect: 'slash' | 'beam';
 
+    /** Normal attacks fire this projectile instead of a melee hitbox (null for melee modes) */
+    readonly projectile: ProjectileProfile | null;
+
+    /** Normal attack used while airborne */
+    readonly aerialAttack: AerialAttackProfile;
+
+    /** Airborne attack with a direction held, for flying modes (null when the mode has none) */
+    readonly airDashAttack: AerialAttackProfile | null;
+
+    /** Dash, backdash and air dash distances */
+    readonly dash: DashProfile;
+
     /** Horizontal movement multiplier */
     readonly moveSpeedMultiplier: number;
 
@@ -1,6 +1,6 @@
 /**
  * Light Mode Strategy
- * Long-range beam stance with low base damage.
+ * Ranged stance that fires fast light bolts with low base damage.
  * Damage absorbed in Dark mode is converted into bonus beam damage.
  */
 
@@ -8,10 +8,13 @@ import type { IElementalMode } from './IElementalMode';
 import type { Character } from '../../entities/Character';
 import type { AttackResult, CharacterForm, VisualConfig } from '../../types';
 import {
+    AERIAL_ATTACKS,
     BASE_ATTACK_DAMAGE,
+    DASH_PROFILES,
     HIT_STUN_DURATION,
     KNOCKBACK_FORCE,
     LIGHT_MODE,
+    LIGHT_PROJECTILE,
     LIGHT_VISUAL
 } from '../../constants/GameConfig';
 
@@ -24,6 +27,10 @@ export class LightModeStrategy implements IElementalMode {
     readonly attackRangeMultiplier = LIGHT_MODE.attackRangeMultiplier;
     readonly attackHeightMultiplier = LIGHT_MODE.attackHeightMultiplier;
     readonly attackEffect = 'beam' as const;
+    readonly projectile = LIGHT_PROJECTILE;
+    readonly aerialAttack = AERIAL_ATTACKS.Light;
+    readonly airDashAttack = null;
+    readonly dash = DASH_PROFILES.Light;
     readonly moveSpeedMultiplier = LIGHT_MODE.moveSpeedMultiplier;
     readonly jumpForceMultiplier = LIGHT_MODE.jumpForceMultiplier;
     readonly gravityMultiplier = LIGHT_MODE.gravityMultiplier;
@@ -43,6 +50,7 @@ export class LightModeStrategy implements IElementalMode {
             },
             hitStun: HIT_STUN_DURATION * 0.75,
             particleType: 'light',
+            element: this.name,
         };
     }
 
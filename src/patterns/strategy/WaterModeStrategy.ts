@@ -7,7 +7,15 @@
 import type { IElementalMode } from './IElementalMode';
 import type { Character } from '../../entities/Character';
 import type { AttackResult, CharacterForm, VisualConfig } from '../../types';
-import { BASE_ATTACK_DAMAGE, WATER_MODE, WATER_VISUAL, KNOCKBACK_FORCE, HIT_STUN_DURATION } from '../../constants/GameConfig';
+import {
+    AERIAL_ATTACKS,
+    BASE_ATTACK_DAMAGE,
+    DASH_PROFILES,
+    WATER_MODE,
+    WATER_VISUAL,
+    KNOCKBACK_FORCE,
+    HIT_STUN_DURATION
+} from '../../constants/GameConfig';
 
 export class WaterModeStrategy implements IElementalMode {
     readonly name = 'Water';
@@ -18,6 +26,10 @@ export class WaterModeStrategy implements IElementalMode {
     readonly attackRangeMultiplier = 1;
     readonly attackHeightMultiplier = 1;
     readonly attackEffect = 'slash' as const;
+    readonly projectile = null;
+    readonly aerialAttack = AERIAL_ATTACKS.Water;
+    readonly airDashAttack = null;
+    readonly dash = DASH_PROFILES.Water;
     readonly moveSpeedMultiplier = WATER_MODE.moveSpeedMultiplier;
     readonly jumpForceMultiplier = WATER_MODE.jumpForceMultiplier;
     readonly gravityMultiplier = WATER_MODE.gravityMultiplier;
@@ -40,6 +52,7 @@ export class WaterModeStrategy implements IElementalMode {
             },
             hitStun: HIT_STUN_DURATION * 0.8, // Slightly less stun
             particleType: 'water',
+            element: this.name,
         };
     }
 
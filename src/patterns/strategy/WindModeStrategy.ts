@@ -7,11 +7,14 @@ import type { IElementalMode } from './IElementalMode';
 import type { Character } from '../../entities/Character';
 import type { AttackResult, CharacterForm, VisualConfig } from '../../types';
 import {
+    AERIAL_ATTACKS,
     BASE_ATTACK_DAMAGE,
+    DASH_PROFILES,
     WIND_MODE,
     WIND_VISUAL,
     HIT_STUN_DURATION,
-    KNOCKBACK_FORCE
+    KNOCKBACK_FORCE,
+    WIND_AIR_DASH_ATTACK
 } from '../../constants/GameConfig';
 
 export class WindModeStrategy implements IElementalMode {
@@ -23,6 +26,10 @@ export class WindModeStrategy implements IElementalMode {
     readonly attackRangeMultiplier = 1;
     readonly attackHeightMultiplier = 1;
     readonly attackEffect = 'slash' as const;
+    readonly projectile = null;
+    readonly aerialAttack = AERIAL_ATTACKS.Wind;
+    readonly airDashAttack = WIND_AIR_DASH_ATTACK;
+    readonly dash = DASH_PROFILES.Wind;
     readonly moveSpeedMultiplier = WIND_MODE.moveSpeedMultiplier;
     readonly jumpForceMultiplier = WIND_MODE.jumpForceMultiplier;
     readonly gravityMultiplier = WIND_MODE.gravityMultiplier;
@@ -41,6 +48,7 @@ export class WindModeStrategy implements IElementalMode {
             },
             hitStun: HIT_STUN_DURATION * 0.7,
             particleType: 'wind',
+            element: this.name,
         };
     }
 
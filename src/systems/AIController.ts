@@ -0,0 +1,217 @@
+/**
+ * AI Controller
+ * Drives a CPU character with per-frame input snapshots, issued as the same
+ * Move/Attack/Block/SwitchMode commands a keyboard player produces (Command Pattern)
+ */
+
+import type { Character } from '../entities/Character';
+import type { SeededRandom } from '../core/SeededRandom';
+import type { ICommand } from '../patterns/command/Command';
+import type { IElementalMode } from '../patterns/strategy/IElementalMode';
+import { InputStateTranslator } from './InputStateTranslator';
+import { getElementalMatchup } from './ElementalAdvantage';
+import type { CpuDifficulty, CpuDifficultySettings, ElementalMatchup, InputState } from '../types';
+import { ATTACK_COOLDOWN, ATTACK_WIDTH, CPU_DIFFICULTY_SETTINGS } from '../constants/GameConfig';
+
+/**
+ * What the CPU committed to at its last decision
+ */
+type CpuIntent = 'approach' | 'attack' | 'block' | 'retreat' | 'wait';
+
+/**
+ * Chance per decision that a CPU without mode knowledge switches anyway
+ */
+const RANDOM_MODE_SWITCH_CHANCE = 0.25;
+
+/**
+ * Mode score bonus for elemental matchups against the opponent's current mode
+ */
+const MATCHUP_SCORES: Record<ElementalMatchup, number> = {
+    effective: 0.4,
+    neutral: 0,
+    resisted: -0.4,
+};
+
+export class AIController {
+    private readonly settings: CpuDifficultySettings;
+    private readonly translator = new InputStateTranslator();
+    private intent: CpuIntent = 'wait';
+    private framesUntilDecision = 0;
+    private framesSinceModeSwitch = 0;
+    private switchModeQueued = false;
+
+    /**
+     * @param random - Simulation RNG, so CPU matches stay deterministic for a seed
+     */
+    constructor(
+        readonly difficulty: CpuDifficulty,
+        private readonly random: SeededRandom
+    ) {
+        this.settings = CPU_DIFFICULTY_SETTINGS[difficulty];
+    }
+
+    /**
+     * Commands to execute on the CPU character before the next simulation step
+     */
+    getCommands(self: Character, opponent: Character): ICommand[] {
+        return this.translator.toCommands(this.decide(self, opponent));
+    }
+
+    /**
+     * Input held this frame. A new intent is only chosen every
+     * reactionDelayFrames; in between the current one is carried out.
+     */
+    decide(self: Character, opponent: Character): Partial<InputState> {
+        this.framesSinceModeSwitch++;
+
+        if (this.framesUntilDecision <= 0) {
+            this.intent = this.chooseIntent(self, opponent);
+            this.considerModeSwitch(self, opponent);
+            this.framesUntilDecision = this.settings.reactionDelayFrames;
+        }
+        this.framesUntilDecision--;
+
+        const input = this.performIntent(self, opponent);
+
+        // Modes cannot change mid-attack or in hitstun, so wait for a free frame
+        if (this.switchModeQueued && !self.isAttacking && !self.isHitStunned) {
+            input.switchMode = true;
+            this.switchModeQueued = false;
+            this.framesSinceModeSwitch = 0;
+        }
+
+        return input;
+    }
+
+    /**
+     * Forget the current plan (e.g. on match restart)
+     */
+    reset(): void {
+        this.translator.reset();
+        this.intent = 'wait';
+        this.framesUntilDecision = 0;
+        this.framesSinceModeSwitch = 0;
+        this.switchModeQueued = false;
+    }
+
+    private chooseIntent(self: Character, opponent: Character): CpuIntent {
+        const gap = this.getGap(self, opponent);
+
+        // Guard against an attack that is already on its way
+        if (
+            opponent.isAttacking &&
+            gap <= this.getReach(opponent.getElementalMode()) &&
+            this.random.next() < this.settings.blockChance
+        ) {
+            return 'block';
+        }
+
+        if (gap > this.getReach(self.getElementalMode())) {
+            return 'approach';
+        }
+
+        if (self.canAttack()) {
+            return this.random.next() < this.settings.attackChance ? 'attack' : 'wait';
+        }
+
+        // Careful CPUs step out of range while their attack recharges
+        const cooldownShare = self.getAttackCooldownRemaining() / ATTACK_COOLDOWN;
+        return this.random.next() < this.settings.blockChance * cooldownShare ? 'retreat' : 'wait';
+    }
+
+    private performIntent(self: Character, opponent: Character): Partial<InputState> {
+        const opponentOnRight = opponent.position.x > self.position.x;
+        const toward: Partial<InputState> = opponentOnRight ? { right: true } : { left: true };
+        const away: Partial<InputState> = opponentOnRight ? { left: true } : { right: true };
+
+        switch (this.intent) {
+            case 'approach':
+                if (this.getGap(self, opponent) > this.getReach(self.getElementalMode()) * 0.8) {
+                    return toward;
+                }
+                return {};
+
+            case 'retreat':
+                return away;
+
+            case 'block':
+                if (opponent.isAttacking) {
+                    return { block: true };
+                }
+                this.intent = 'wait';
+                return {};
+
+            case 'attack':
+                // One swing per decision
+                if (self.isAttacking) {
+                    this.intent = 'wait';
+                    return {};
+                }
+                // Turn around first, otherwise the hitbox points away
+                if (self.facingRight !== opponentOnRight) {
+                    return toward;
+                }
+                return { attack: true };
+
+            case 'wait':
+                return {};
+        }
+    }
+
+    private considerModeSwitch(self: Character, opponent: Character): void {
+        if (this.framesSinceModeSwitch < this.settings.modeSwitchIntervalFrames) return;
+
+        const [firstMode, secondMode] = self.getAvailableModes();
+        const currentMode = self.getElementalMode();
+        const otherMode = currentMode === firstMode ? secondMode : firstMode;
+
+        if (this.random.next() < this.settings.modeSwitchAccuracy) {
+            this.switchModeQueued =
+                this.scoreMode(otherMode, self, opponent) > this.scoreMode(currentMode, self, opponent);
+            return;
+        }
+
+        this.switchModeQueued = this.random.next() < RANDOM_MODE_SWITCH_CHANCE;
+    }
+
+    /**
+     * How well a mode suits the current situation (higher is better)
+     */
+    private scoreMode(mode: IElementalMode, self: Character, opponent: Character): number {
+        // Leading on health favours damage, trailing favours defense
+        const healthLead = (self.health - opponent.health) / self.maxHealth;
+        let score =
+            mode.damageMultiplier * (1 + healthLead) +
+            mode.defenseMultiplier * (1 - healthLead) * 0.5;
+
+        // Long reach pays off against an opponent who keeps their distance
+        if (this.getGap(self, opponent) > ATTACK_WIDTH) {
+            score += (this.getReach(mode) / ATTACK_WIDTH - 1) * 0.25;
+        }
+
+        // Prefer modes that hit the opponent's element hard and shrug off its attacks
+        const opponentMode = opponent.getModeName();
+        score += MATCHUP_SCORES[getElementalMatchup(mode.name, opponentMode)];
+        score -= MATCHUP_SCORES[getElementalMatchup(opponentMode, mode.name)];
+
+        return score;
+    }
+
+    /**
+     * Horizontal space between the two bodies
+     */
+    private getGap(self: Character, opponent: Character): number {
+        return Math.max(0, Math.abs(opponent.position.x - self.position.x) - self.width);
+    }
+
+    /**
+     * Attack reach in front of the body for a mode: hitbox width, or
+     * projectile flight distance for ranged modes
+     */
+    private getReach(mode: IElementalMode): number {
+        if (mode.projectile) {
+            return mode.projectile.speed * mode.projectile.lifetime / 1000;
+        }
+        return ATTACK_WIDTH * mode.attackRangeMultiplier;
+    }
+}
@@ -0,0 +1,174 @@
+/**
+ * Camera
+ * Pans and zooms the world view to frame both fighters on a stage wider than
+ * the canvas, and shakes on heavy hits. The HUD is drawn outside its transform.
+ */
+
+import type { Rectangle } from '../types';
+import {
+    CAMERA_FOLLOW_SPEED,
+    CAMERA_MAX_ZOOM,
+    CAMERA_MIN_ZOOM,
+    CAMERA_PADDING,
+    CANVAS_HEIGHT,
+    CANVAS_WIDTH,
+    SCREEN_SHAKE_DURATION,
+    SCREEN_SHAKE_MAX,
+    SCREEN_SHAKE_PER_DAMAGE,
+    STAGE_WIDTH
+} from '../constants/GameConfig';
+
+export class Camera {
+    // World x at the center of the view; the bottom edge stays on the canvas floor
+    private centerX: number;
+    private zoom = 1;
+    // View before the last step, blended with the current one when drawing
+    private previousCenterX: number;
+    private previousZoom = 1;
+    private shakeAmplitude = 0;
+    private shakeTimeLeft = 0;
+    private shakeElapsed = 0;
+
+    constructor(private stageWidth: number = STAGE_WIDTH) {
+        this.centerX = stageWidth / 2;
+        this.previousCenterX = this.centerX;
+    }
+
+    /**
+     * Ease toward the view that frames all targets
+     * @param deltaTime - Time since the last update in seconds
+     */
+    follow(targets: readonly Rectangle[], deltaTime: number): void {
+        const goal = this.getFraming(targets);
+        const blend = 1 - Math.exp(-CAMERA_FOLLOW_SPEED * deltaTime);
+
+        this.previousCenterX = this.centerX;
+        this.previousZoom = this.zoom;
+        this.zoom += (goal.zoom - this.zoom) * blend;
+        this.centerX = this.clampCenter(this.centerX + (goal.centerX - this.centerX) * blend);
+        this.updateShake(deltaTime);
+    }
+
+    /**
+     * Jump straight to the view that frames all targets (round starts)
+     */
+    snapTo(targets: readonly Rectangle[]): void {
+        const goal = this.getFraming(targets);
+        this.zoom = goal.zoom;
+        this.centerX = goal.centerX;
+        this.previousZoom = this.zoom;
+        this.previousCenterX = this.centerX;
+        this.shakeAmplitude = 0;
+        this.shakeTimeLeft = 0;
+    }
+
+    /**
+     * Shake the view in proportion to the damage dealt; a stronger hit
+     * overrides a weaker shake that is still playing
+     */
+    shake(damage: number): void {
+        const amplitude = Math.min(SCREEN_SHAKE_MAX, damage * SCREEN_SHAKE_PER_DAMAGE);
+        if (amplitude <= 0) return;
+
+        this.shakeAmplitude = Math.max(amplitude, this.getShakeAmplitude());
+        this.shakeTimeLeft = SCREEN_SHAKE_DURATION;
+        this.shakeElapsed = 0;
+    }
+
+    /**
+     * Map world coordinates onto the canvas. Wrap in ctx.save() / ctx.restore()
+     * and draw screen-space UI after restoring.
+     * @param alpha - Fraction of the next step already elapsed (0..1)
+     */
+    applyTransform(ctx: CanvasRenderingContext2D, alpha: number = 1): void {
+        const amplitude = this.getShakeAmplitude();
+        const shakeX = Math.sin(this.shakeElapsed * 0.09) * amplitude;
+        const shakeY = Math.cos(this.shakeElapsed * 0.13) * amplitude;
+        const zoom = this.getZoom(alpha);
+
+        ctx.translate(CANVAS_WIDTH / 2 + shakeX, CANVAS_HEIGHT + shakeY);
+        ctx.scale(zoom, zoom);
+        ctx.translate(-this.getCenterX(alpha), -CANVAS_HEIGHT);
+    }
+
+    /**
+     * World area on screen (ignoring shake)
+     * @param alpha - Fraction of the next step already elapsed (0..1)
+     */
+    getViewRect(alpha: number = 1): Rectangle {
+        const zoom = this.getZoom(alpha);
+        const width = CANVAS_WIDTH / zoom;
+        const height = CANVAS_HEIGHT / zoom;
+        return {
+            x: this.getCenterX(alpha) - width / 2,
+            y: CANVAS_HEIGHT - height,
+            width,
+            height,
+        };
+    }
+
+    /**
+     * Zoom blended between the last two steps, like Character.getRenderPosition
+     */
+    getZoom(alpha: number = 1): number {
+        return this.previousZoom + (this.zoom - this.previousZoom) * alpha;
+    }
+
+    /**
+     * Current shake amplitude in pixels (0 when still)
+     */
+    getShakeAmplitude(): number {
+        if (this.shakeTimeLeft <= 0) return 0;
+        return this.shakeAmplitude * (this.shakeTimeLeft / SCREEN_SHAKE_DURATION);
+    }
+
+    /**
+     * Use a different stage width (keeps the view inside it)
+     */
+    setStageWidth(stageWidth: number): void {
+        this.stageWidth = stageWidth;
+        this.centerX = this.clampCenter(this.centerX);
+        this.previousCenterX = this.centerX;
+    }
+
+    private getCenterX(alpha: number): number {
+        return this.previousCenterX + (this.centerX - this.previousCenterX) * alpha;
+    }
+
+    private getFraming(targets: readonly Rectangle[]): { centerX: number; zoom: number } {
+        if (targets.length === 0) {
+            return { centerX: this.centerX, zoom: this.zoom };
+        }
+
+        const left = Math.min(...targets.map(target => target.x)) - CAMERA_PADDING;
+        const right = Math.max(...targets.map(target => target.x + target.width)) + CAMERA_PADDING;
+        const top = Math.min(...targets.map(target => target.y)) - CAMERA_PADDING;
+
+        // Zoom out far enough for the pair to fit across and for jumps to stay in view
+        const fitWidth = CANVAS_WIDTH / (right - left);
+        const fitHeight = CANVAS_HEIGHT / (CANVAS_HEIGHT - top);
+        const minZoom = Math.max(CAMERA_MIN_ZOOM, CANVAS_WIDTH / this.stageWidth);
+        const zoom = Math.min(CAMERA_MAX_ZOOM, Math.max(minZoom, Math.min(fitWidth, fitHeight)));
+
+        return { centerX: this.clampCenter((left + right) / 2, zoom), zoom };
+    }
+
+    /**
+     * Keep the view from showing anything past the stage edges
+     */
+    private clampCenter(centerX: number, zoom: number = this.zoom): number {
+        const halfWidth = CANVAS_WIDTH / zoom / 2;
+        if (halfWidth * 2 >= this.stageWidth) {
+            return this.stageWidth / 2;
+        }
+        return Math.min(this.stageWidth - halfWidth, Math.max(halfWidth, centerX));
+    }
+
+    private updateShake(deltaTime: number): void {
+        if (this.shakeTimeLeft <= 0) return;
+
+        const elapsed = deltaTime * 1000;
+        this.shakeElapsed += elapsed;
+        this.shakeTimeLeft = Math.max(0, this.shakeTimeLeft - elapsed);
+    }
+}
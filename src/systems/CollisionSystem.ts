@@ -3,7 +3,7 @@
  * Handles AABB collision detection between game entities
  */
 
-import type { Rectangle } from '../types';
+import type { Rectangle, StageSurface } from '../types';
 import type { Character } from '../entities/Character';
 
 export class CollisionSystem {
@@ -53,6 +53,77 @@ export class CollisionSystem {
         }
     }
 
+    /**
+     * Pull characters back together when they drift further apart than
+     * maxDistance (body edge to body edge). Whoever moved away this step is
+     * pulled back; when both did, each gives up a share of the excess.
+     */
+    static enforceMaxDistance(a: Character, b: Character, maxDistance: number): void {
+        const [left, right] = a.position.x <= b.position.x ? [a, b] : [b, a];
+        const gap = right.position.x - (left.position.x + left.width);
+        const excess = gap - maxDistance;
+        if (excess <= 0) return;
+
+        const leftRetreat = Math.max(0, left.previousPosition.x - left.position.x);
+        const rightRetreat = Math.max(0, right.position.x - right.previousPosition.x);
+        const totalRetreat = leftRetreat + rightRetreat;
+        const leftShare = totalRetreat > 0 ? leftRetreat / totalRetreat : 0.5;
+
+        left.position.x += excess * leftShare;
+        right.position.x -= excess * (1 - leftShare);
+    }
+
+    /**
+     * Resolve a character's body against stage terrain after it moved this step.
+     * Landing is swept from the previous position, so fast falls (e.g. Earth's
+     * heavy gravity) cannot tunnel through thin platforms.
+     * @returns The surface the character is now standing on, or null
+     */
+    static resolveTerrain(character: Character, surfaces: readonly StageSurface[]): StageSurface | null {
+        let standingOn: StageSurface | null = null;
+
+        for (const surface of surfaces) {
+            const feet = character.position.y + character.height;
+            const previousFeet = character.previousPosition.y + character.height;
+            const overlapsX = character.position.x < surface.x + surface.width &&
+                character.position.x + character.width > surface.x;
+            if (!overlapsX) continue;
+
+            // Top face: platforms and blocks alike can be landed on
+            if (character.velocity.y >= 0 && previousFeet <= surface.y && feet >= surface.y) {
+                character.position.y = surface.y - character.height;
+                character.velocity.y = 0;
+                standingOn = surface;
+                continue;
+            }
+
+            if (surface.type === 'platform') continue;
+
+            const body = {
+                x: character.position.x,
+                y: character.position.y,
+                width: character.width,
+                height: character.height,
+            };
+            if (!this.checkAABB(body, surface)) continue;
+
+            // Underside: bump the head. Otherwise push out of the nearer side.
+            const surfaceBottom = surface.y + surface.height;
+            if (character.previousPosition.y >= surfaceBottom) {
+                character.position.y = surfaceBottom;
+                character.velocity.y = Math.max(0, character.velocity.y);
+            } else if (character.previousPosition.x + character.width / 2 < surface.x + surface.width / 2) {
+                character.position.x = surface.x - character.width;
+                character.velocity.x = 0;
+            } else {
+                character.position.x = surface.x + surface.width;
+                character.velocity.x = 0;
+            }
+        }
+
+        return standingOn;
+    }
+
     /**
      * Get collision point between two rectangles
      */
@@ -0,0 +1,46 @@
+/**
+ * Elemental Advantage
+ * Looks up attacker/defender mode pairs in the advantage table and scales hits
+ */
+
+import type { AttackResult, ElementalMatchup, ElementalMode } from '../types';
+import { ELEMENTAL_ADVANTAGES, ELEMENTAL_MATCHUP_MODIFIERS } from '../constants/GameConfig';
+
+/**
+ * How an attack of one element fares against a defender in another mode
+ */
+export function getElementalMatchup(attacker: ElementalMode, defender: ElementalMode): ElementalMatchup {
+    if (ELEMENTAL_ADVANTAGES[attacker].includes(defender)) {
+        return 'effective';
+    }
+    if (ELEMENTAL_ADVANTAGES[defender].includes(attacker)) {
+        return 'resisted';
+    }
+    return 'neutral';
+}
+
+/**
+ * Attack result with damage, hitstun and knockback scaled for the matchup
+ */
+export function applyElementalMatchup(
+    attackResult: AttackResult,
+    defender: ElementalMode
+): { result: AttackResult; matchup: ElementalMatchup } {
+    const matchup = attackResult.element
+        ? getElementalMatchup(attackResult.element, defender)
+        : 'neutral';
+    const modifiers = ELEMENTAL_MATCHUP_MODIFIERS[matchup];
+
+    return {
+        matchup,
+        result: {
+            ...attackResult,
+            damage: attackResult.damage * modifiers.damage,
+            hitStun: attackResult.hitStun * modifiers.hitStun,
+            knockback: {
+                x: attackResult.knockback.x * modifiers.knockback,
+                y: attackResult.knockback.y * modifiers.knockback,
+            },
+        },
+    };
+}
@@ -0,0 +1,91 @@
+/**
+ * Frame Data Tracker
+ * Observes hits on both characters and measures, frame by frame, how long the
+ * defender stays stunned and who recovers first (frame advantage)
+ */
+
+import type { Character } from '../entities/Character';
+import type { IObserver } from '../patterns/observer/Observer';
+import type { CharacterEvent, FrameDataReport } from '../types';
+
+interface PendingHit {
+    attacker: Character;
+    defender: Character;
+    hitFrame: number;
+    attackerReadyFrame: number | null;
+    defenderReadyFrame: number | null;
+}
+
+export class FrameDataTracker implements IObserver<CharacterEvent> {
+    private frame = 0;
+    private pending: PendingHit | null = null;
+    private report: FrameDataReport | null = null;
+
+    constructor(private readonly characters: readonly [Character, Character]) {
+        characters.forEach(character => character.attach(this));
+    }
+
+    /**
+     * Observer update - a hit or blocked hit starts a new measurement
+     */
+    update(data: CharacterEvent): void {
+        if (!('currentHealth' in data) || data.damage <= 0) return;
+
+        const defender = this.characters.find(character => character.playerId === data.playerId);
+        const attacker = this.characters.find(character => character.playerId !== data.playerId);
+        if (!defender || !attacker) return;
+
+        this.report = {
+            attackerId: attacker.playerId,
+            damage: data.damage,
+            blocked: defender.isBlocking,
+            stunFrames: null,
+            frameAdvantage: null,
+        };
+        this.pending = {
+            attacker,
+            defender,
+            hitFrame: this.frame,
+            attackerReadyFrame: null,
+            defenderReadyFrame: null,
+        };
+    }
+
+    /**
+     * Call after every simulation step
+     */
+    afterStep(): void {
+        this.frame++;
+
+        const pending = this.pending;
+        if (!pending || !this.report) return;
+
+        if (pending.attackerReadyFrame === null && pending.attacker.isActionable()) {
+            pending.attackerReadyFrame = this.frame;
+        }
+        if (pending.defenderReadyFrame === null && pending.defender.isActionable()) {
+            pending.defenderReadyFrame = this.frame;
+        }
+        if (pending.attackerReadyFrame === null || pending.defenderReadyFrame === null) return;
+
+        this.report.stunFrames = pending.defenderReadyFrame - pending.hitFrame;
+        this.report.frameAdvantage = pending.defenderReadyFrame - pending.attackerReadyFrame;
+        this.pending = null;
+    }
+
+    getReport(): FrameDataReport | null {
+        return this.report ? { ...this.report } : null;
+    }
+
+    reset(): void {
+        this.pending = null;
+        this.report = null;
+    }
+
+    /**
+     * Stop observing the characters
+     */
+    dispose(): void {
+        this.characters.forEach(character => character.detach(this));
+    }
+}
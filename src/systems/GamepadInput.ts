@@ -0,0 +1,58 @@
+/**
+ * Gamepad Input
+ * Reads a polled Gamepad API pad into the same InputState snapshot the keyboard produces
+ */
+
+import type { GamepadSlot, InputState } from '../types';
+import {
+    GAMEPAD_BUTTONS,
+    GAMEPAD_STICK_DEADZONE,
+    GAMEPAD_TRIGGER_THRESHOLD
+} from '../constants/GameConfig';
+
+/**
+ * Zero out stick values inside the deadzone
+ */
+export function applyDeadzone(value: number, deadzone: number = GAMEPAD_STICK_DEADZONE): number {
+    return Math.abs(value) < deadzone ? 0 : value;
+}
+
+/**
+ * Current pad in a slot, or null when nothing is connected there
+ */
+export function getGamepad(slot: GamepadSlot): Gamepad | null {
+    if (typeof navigator === 'undefined' || typeof navigator.getGamepads !== 'function') {
+        return null;
+    }
+
+    return navigator.getGamepads()[slot] ?? null;
+}
+
+/**
+ * Map d-pad, left stick and face buttons to an input snapshot
+ */
+export function readGamepadState(pad: Gamepad): InputState {
+    const stickX = applyDeadzone(pad.axes[0] ?? 0);
+    const stickY = applyDeadzone(pad.axes[1] ?? 0);
+
+    return {
+        up: isAnyButtonPressed(pad, GAMEPAD_BUTTONS.up) || stickY < 0,
+        down: isAnyButtonPressed(pad, GAMEPAD_BUTTONS.down) || stickY > 0,
+        left: isAnyButtonPressed(pad, GAMEPAD_BUTTONS.left) || stickX < 0,
+        right: isAnyButtonPressed(pad, GAMEPAD_BUTTONS.right) || stickX > 0,
+        attack: isAnyButtonPressed(pad, GAMEPAD_BUTTONS.attack),
+        switchMode: isAnyButtonPressed(pad, GAMEPAD_BUTTONS.switchMode),
+        block: isAnyButtonPressed(pad, GAMEPAD_BUTTONS.block),
+        throw: isAnyButtonPressed(pad, GAMEPAD_BUTTONS.throw),
+    };
+}
+
+/**
+ * Whether any of the given buttons is held (analog buttons past the threshold)
+ */
+export function isAnyButtonPressed(pad: Gamepad, buttonIndices: readonly number[]): boolean {
+    return buttonIndices.some(index => {
+        const button = pad.buttons[index];
+        return button !== undefined && (button.pressed || button.value >= GAMEPAD_TRIGGER_THRESHOLD);
+    });
+}
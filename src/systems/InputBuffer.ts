@@ -0,0 +1,173 @@
+/**
+ * Input Buffer
+ * Per-character history of the last N frames of directions and button presses,
+ * used for buffered attacks and motion input (e.g. 236 + attack) recognition
+ */
+
+import type { BufferedButton, DashDirection, MotionInputDefinition, NumpadDirection } from '../types';
+import {
+    DASH_DOUBLE_TAP_WINDOW,
+    INPUT_BUFFER_PRESS_WINDOW,
+    INPUT_BUFFER_SIZE,
+    MOTION_INPUT_WINDOW
+} from '../constants/GameConfig';
+
+/**
+ * Held inputs sampled once per simulation step
+ */
+export interface BufferedInputSample {
+    left: boolean;
+    right: boolean;
+    up: boolean;
+    down: boolean;
+    attack: boolean;
+    block: boolean;
+    throw: boolean;
+}
+
+interface BufferedFrame {
+    direction: NumpadDirection;
+    /** Buttons that went down on this frame and were not consumed yet */
+    pressed: Record<BufferedButton, boolean>;
+}
+
+export interface InputBufferOptions {
+    size?: number;
+    pressWindow?: number;
+    motionWindow?: number;
+}
+
+export class InputBuffer {
+    readonly size: number;
+    readonly pressWindow: number;
+    readonly motionWindow: number;
+
+    private frames: BufferedFrame[] = [];
+    private held: Record<BufferedButton, boolean> = { attack: false, block: false, throw: false };
+
+    constructor(options: InputBufferOptions = {}) {
+        this.size = options.size ?? INPUT_BUFFER_SIZE;
+        this.pressWindow = options.pressWindow ?? INPUT_BUFFER_PRESS_WINDOW;
+        this.motionWindow = Math.min(options.motionWindow ?? MOTION_INPUT_WINDOW, this.size);
+    }
+
+    /**
+     * Store this frame's input
+     * @param forwardIsRight - Whether the opponent is to the right (defines "forward")
+     */
+    record(sample: BufferedInputSample, forwardIsRight: boolean): void {
+        this.frames.push({
+            direction: InputBuffer.toNumpad(sample, forwardIsRight),
+            pressed: {
+                attack: sample.attack && !this.held.attack,
+                block: sample.block && !this.held.block,
+                throw: sample.throw && !this.held.throw,
+            },
+        });
+        this.held = { attack: sample.attack, block: sample.block, throw: sample.throw };
+
+        if (this.frames.length > this.size) {
+            this.frames.shift();
+        }
+    }
+
+    /**
+     * Whether the button was pressed within the last pressWindow frames
+     */
+    wasPressed(button: BufferedButton): boolean {
+        return this.findPress(button) !== -1;
+    }
+
+    /**
+     * Use up buffered presses of a button so they trigger only one action
+     */
+    consume(button: BufferedButton): void {
+        this.frames.forEach(frame => {
+            frame.pressed[button] = false;
+        });
+    }
+
+    /**
+     * First definition whose motion was entered in order before a buffered
+     * press of its button. Other directions may sit between the steps, so
+     * 2, 3, 6 also satisfies a 2, 6 motion.
+     */
+    matchMotion<T extends MotionInputDefinition>(definitions: readonly T[]): T | null {
+        for (const definition of definitions) {
+            const pressIndex = this.findPress(definition.button);
+            if (pressIndex !== -1 && this.endsWithMotion(definition.motion, pressIndex)) {
+                return definition;
+            }
+        }
+        return null;
+    }
+
+    /**
+     * Forward or back tapped twice with only neutral in between (66 or 44),
+     * the second tap landing on the most recent frame
+     */
+    matchDoubleTap(window: number = DASH_DOUBLE_TAP_WINDOW): DashDirection | null {
+        const last = this.frames.length - 1;
+        const tap = this.frames[last]?.direction;
+        if (tap !== 6 && tap !== 4) return null;
+
+        const oldest = Math.max(0, last - window);
+        let index = last - 1;
+        let sawNeutral = false;
+        while (index >= oldest && this.frames[index]?.direction === 5) {
+            sawNeutral = true;
+            index--;
+        }
+
+        if (!sawNeutral || index < oldest || this.frames[index]?.direction !== tap) return null;
+        return tap === 6 ? 'forward' : 'back';
+    }
+
+    /**
+     * Direction held on the most recent frame
+     */
+    getCurrentDirection(): NumpadDirection {
+        return this.frames[this.frames.length - 1]?.direction ?? 5;
+    }
+
+    clear(): void {
+        this.frames = [];
+        this.held = { attack: false, block: false, throw: false };
+    }
+
+    /**
+     * Convert held directions into numpad notation relative to the opponent
+     */
+    static toNumpad(sample: BufferedInputSample, forwardIsRight: boolean): NumpadDirection {
+        const forward = forwardIsRight ? sample.right : sample.left;
+        const back = forwardIsRight ? sample.left : sample.right;
+        const horizontal = forward === back ? 0 : forward ? 1 : -1;
+        const vertical = sample.up === sample.down ? 0 : sample.up ? 1 : -1;
+
+        return (5 + horizontal + vertical * 3) as NumpadDirection;
+    }
+
+    private findPress(button: BufferedButton): number {
+        const oldest = Math.max(0, this.frames.length - this.pressWindow);
+        for (let index = this.frames.length - 1; index >= oldest; index--) {
+            if (this.frames[index]?.pressed[button]) {
+                return index;
+            }
+        }
+        return -1;
+    }
+
+    private endsWithMotion(motion: readonly NumpadDirection[], pressIndex: number): boolean {
+        let step = motion.length - 1;
+        const oldest = Math.max(0, pressIndex - this.motionWindow);
+
+        // Walk back from the press, matching the motion from its last direction
+        for (let index = pressIndex; index >= oldest && step >= 0; index--) {
+            if (this.frames[index]?.direction === motion[step]) {
+                step--;
+            }
+        }
+
+        return step < 0;
+    }
+}
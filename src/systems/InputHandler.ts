@@ -1,26 +1,46 @@
 /**
  * Input Handler System
- * Maps keyboard presses to Command objects (Command Pattern)
+ * Maps keyboard presses and polled gamepads to Command objects (Command Pattern)
  */
 
 import type { Character } from '../entities/Character';
-import type { KeyBindings, PlayerId } from '../types';
-import { MoveCommand, AttackCommand, SwitchModeCommand, type ICommand } from '../patterns/command/Command';
-import { PLAYER1_KEYS, PLAYER2_KEYS } from '../constants/GameConfig';
+import type { InputSource, KeyBindings, PlayerId } from '../types';
+import {
+    MoveCommand,
+    AttackCommand,
+    BlockCommand,
+    ThrowCommand,
+    SwitchModeCommand,
+    type ICommand
+} from '../patterns/command/Command';
+import { getGamepad, isAnyButtonPressed, readGamepadState } from './GamepadInput';
+import { InputStateTranslator } from './InputStateTranslator';
+import { GAMEPAD_MENU_BUTTONS } from '../constants/GameConfig';
 
 interface PlayerInput {
     character: Character;
     keyBindings: KeyBindings;
+    source: InputSource;
+    /** Diffs gamepad snapshots into held-button commands */
+    gamepadTranslator: InputStateTranslator;
 }
 
 /**
- * Input Handler - manages keyboard input and dispatches commands
+ * Callback notified of every command dispatched to a player
+ */
+export type CommandListener = (playerId: PlayerId, command: ICommand) => void;
+
+/**
+ * Input Handler - manages keyboard and gamepad input and dispatches commands
  */
 export class InputHandler {
     private players: Map<PlayerId, PlayerInput> = new Map();
     private keyState: Map<string, boolean> = new Map();
     private switchModePressed: Map<PlayerId, boolean> = new Map();
+    private pausePressed: Map<PlayerId, boolean> = new Map();
     private inputEnabled = true;
+    private commandListener: CommandListener | null = null;
+    private pauseListener: (() => void) | null = null;
 
     constructor() {
         this.setupEventListeners();
@@ -28,13 +48,14 @@ export class InputHandler {
 
     /**
      * Register a player for input handling
+     * @param source - Keyboard or the gamepad slot this player uses
      */
-    registerPlayer(character: Character): void {
-        const keyBindings = character.playerId === 'Player1' ? PLAYER1_KEYS : PLAYER2_KEYS;
-
+    registerPlayer(character: Character, source: InputSource = 'keyboard'): void {
         this.players.set(character.playerId, {
             character,
-            keyBindings,
+            keyBindings: character.keyBindings,
+            source,
+            gamepadTranslator: new InputStateTranslator(),
         });
 
         this.switchModePressed.set(character.playerId, false);
@@ -46,6 +67,7 @@ export class InputHandler {
     unregisterPlayer(playerId: PlayerId): void {
         this.players.delete(playerId);
         this.switchModePressed.delete(playerId);
+        this.pausePressed.delete(playerId);
     }
 
     /**
@@ -64,6 +86,20 @@ export class InputHandler {
         window.removeEventListener('keyup', this.handleKeyUp.bind(this));
     }
 
+    /**
+     * Observe dispatched commands (used by the replay recorder)
+     */
+    setCommandListener(listener: CommandListener | null): void {
+        this.commandListener = listener;
+    }
+
+    /**
+     * Observe Start presses on the players' gamepads
+     */
+    setPauseListener(listener: (() => void) | null): void {
+        this.pauseListener = listener;
+    }
+
     /**
      * Enable/disable gameplay input dispatch.
      */
@@ -76,7 +112,13 @@ export class InputHandler {
 
         if (!enabled) {
             this.clearAllInputState();
+            return;
         }
+
+        // A Start press that closed a menu must not pause again
+        this.players.forEach((playerInput, playerId) => {
+            this.pausePressed.set(playerId, this.isPauseButtonHeld(playerInput));
+        });
     }
 
     /**
@@ -95,11 +137,13 @@ export class InputHandler {
         // Track key state
         this.keyState.set(event.code, true);
 
-        // Process input for each player
+        // Process input for each keyboard player
         this.players.forEach((playerInput, playerId) => {
+            if (playerInput.source !== 'keyboard') return;
+
             const command = this.mapKeyToCommand(event.code, playerInput.keyBindings, true, playerId);
             if (command) {
-                command.execute(playerInput.character);
+                this.dispatch(playerId, playerInput.character, command);
             }
         });
     }
@@ -115,11 +159,13 @@ export class InputHandler {
         // Track key state
         this.keyState.set(event.code, false);
 
-        // Process input for each player
+        // Process input for each keyboard player
         this.players.forEach((playerInput, playerId) => {
+            if (playerInput.source !== 'keyboard') return;
+
             const command = this.mapKeyToCommand(event.code, playerInput.keyBindings, false, playerId);
             if (command) {
-                command.execute(playerInput.character);
+                this.dispatch(playerId, playerInput.character, command);
             }
 
             // Reset switch mode flag on key up
@@ -129,6 +175,99 @@ export class InputHandler {
         });
     }
 
+    /**
+     * Poll gamepads (Gamepad API has no button events) and dispatch commands
+     * for players using a pad. Call once per simulation step.
+     */
+    pollGamepads(): void {
+        if (!this.inputEnabled) {
+            return;
+        }
+
+        this.players.forEach((playerInput, playerId) => {
+            if (playerInput.source === 'keyboard') return;
+
+            // A disconnected pad behaves like every button being released
+            const pad = getGamepad(playerInput.source);
+            const { switchMode, ...heldInput } = pad
+                ? readGamepadState(pad)
+                : { switchMode: false };
+
+            playerInput.gamepadTranslator.toCommands(heldInput).forEach(command => {
+                this.dispatch(playerId, playerInput.character, command);
+            });
+
+            // Switch mode only on press, not held (same edge trigger as the keyboard)
+            const wasPressed = this.switchModePressed.get(playerId) ?? false;
+            if (switchMode && !wasPressed) {
+                this.dispatch(playerId, playerInput.character, new SwitchModeCommand());
+            }
+            this.switchModePressed.set(playerId, switchMode);
+        });
+    }
+
+    /**
+     * Poll the Start button of players using a pad. Call once per step, even
+     * while the fight itself is on hold (round intros and results).
+     */
+    pollPauseButtons(): void {
+        if (!this.inputEnabled) {
+            return;
+        }
+
+        this.players.forEach((playerInput, playerId) => {
+            const pressed = this.isPauseButtonHeld(playerInput);
+            const wasPressed = this.pausePressed.get(playerId) ?? false;
+            this.pausePressed.set(playerId, pressed);
+
+            if (pressed && !wasPressed) {
+                this.pauseListener?.();
+            }
+        });
+    }
+
+    private isPauseButtonHeld(playerInput: PlayerInput): boolean {
+        if (playerInput.source === 'keyboard') return false;
+
+        const pad = getGamepad(playerInput.source);
+        return pad !== null && isAnyButtonPressed(pad, GAMEPAD_MENU_BUTTONS.pause);
+    }
+
+    /**
+     * Characters forget held input when they are reset between rounds: send
+     * the keys still held again, and let the next gamepad poll resend its buttons
+     */
+    reapplyHeldInput(): void {
+        if (!this.inputEnabled) {
+            return;
+        }
+
+        this.players.forEach((playerInput, playerId) => {
+            if (playerInput.source !== 'keyboard') {
+                playerInput.gamepadTranslator.reset();
+                return;
+            }
+
+            this.keyState.forEach((held, keyCode) => {
+                // Switch mode is a press, not a held input
+                if (!held || keyCode === playerInput.keyBindings.switchMode) return;
+
+                const command = this.mapKeyToCommand(keyCode, playerInput.keyBindings, true, playerId);
+                if (command) {
+                    this.dispatch(playerId, playerInput.character, command);
+                }
+            });
+        });
+    }
+
+    /**
+     * Execute a command on a character and notify the listener
+     */
+    private dispatch(playerId: PlayerId, character: Character, command: ICommand): void {
+        command.execute(character);
+        this.commandListener?.(playerId, command);
+    }
+
     /**
      * Map a key code to a command
      */
@@ -157,6 +296,16 @@ export class InputHandler {
             return new AttackCommand(pressed);
         }
 
+        // Block command (held)
+        if (keyCode === bindings.block) {
+            return new BlockCommand(pressed);
+        }
+
+        // Throw command
+        if (keyCode === bindings.throw) {
+            return new ThrowCommand(pressed);
+        }
+
         // Switch mode command (only on key down, not held)
         if (keyCode === bindings.switchMode && pressed) {
             const wasPressed = this.switchModePressed.get(playerId) ?? false;
@@ -173,11 +322,9 @@ export class InputHandler {
      * Check if a key code is a game-related key
      */
     private isGameKey(keyCode: string): boolean {
-        const allKeys = [
-            ...Object.values(PLAYER1_KEYS),
-            ...Object.values(PLAYER2_KEYS),
-        ];
-        return allKeys.includes(keyCode);
+        return Array.from(this.players.values()).some(({ keyBindings, source }) =>
+            source === 'keyboard' && Object.values(keyBindings).includes(keyCode)
+        );
     }
 
     private shouldIgnoreKeyboardEvent(event: KeyboardEvent): boolean {
@@ -201,12 +348,15 @@ export class InputHandler {
             this.switchModePressed.set(playerId, false);
         });
 
-        this.players.forEach(({ character }) => {
+        this.players.forEach(({ character, gamepadTranslator }) => {
+            gamepadTranslator.reset();
             character.inputFlags.left = false;
             character.inputFlags.right = false;
             character.inputFlags.up = false;
             character.inputFlags.down = false;
             character.inputFlags.attack = false;
+            character.inputFlags.block = false;
+            character.inputFlags.throw = false;
             character.inputFlags.moving = false;
             character.velocity.x = 0;
         });
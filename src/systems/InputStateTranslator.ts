@@ -0,0 +1,78 @@
+/**
+ * Input State Translator
+ * Turns per-frame input snapshots into Command objects (Command Pattern),
+ * so scripted, recorded or polled input drives characters exactly like the keyboard
+ */
+
+import type { InputState } from '../types';
+import {
+    MoveCommand,
+    AttackCommand,
+    BlockCommand,
+    ThrowCommand,
+    SwitchModeCommand,
+    type ICommand
+} from '../patterns/command/Command';
+
+const DIRECTIONS = ['left', 'right', 'up', 'down'] as const;
+
+/**
+ * Create an input snapshot with nothing pressed
+ */
+export function createNeutralInputState(): InputState {
+    return {
+        up: false,
+        down: false,
+        left: false,
+        right: false,
+        attack: false,
+        switchMode: false,
+        block: false,
+        throw: false,
+    };
+}
+
+export class InputStateTranslator {
+    private previous: InputState = createNeutralInputState();
+
+    /**
+     * Produce the commands needed to move from the previous snapshot to this one.
+     * Held buttons only emit on change; switchMode fires on its rising edge.
+     */
+    toCommands(input: Partial<InputState>): ICommand[] {
+        const next: InputState = { ...createNeutralInputState(), ...input };
+        const commands: ICommand[] = [];
+
+        DIRECTIONS.forEach(direction => {
+            if (next[direction] !== this.previous[direction]) {
+                commands.push(new MoveCommand(direction, next[direction]));
+            }
+        });
+
+        if (next.attack !== this.previous.attack) {
+            commands.push(new AttackCommand(next.attack));
+        }
+
+        if (next.block !== this.previous.block) {
+            commands.push(new BlockCommand(next.block));
+        }
+
+        if (next.throw !== this.previous.throw) {
+            commands.push(new ThrowCommand(next.throw));
+        }
+
+        if (next.switchMode && !this.previous.switchMode) {
+            commands.push(new SwitchModeCommand());
+        }
+
+        this.previous = next;
+        return commands;
+    }
+
+    /**
+     * Forget the previous snapshot (e.g. after the character's flags were cleared)
+     */
+    reset(): void {
+        this.previous = createNeutralInputState();
+    }
+}
@@ -0,0 +1,183 @@
+/**
+ * Key Binding Store
+ * Loads, validates and persists per-player keyboard maps in localStorage
+ */
+
+import type { KeyBindingAction, KeyBindingConflict, KeyBindings, PlayerId } from '../types';
+import {
+    DEFAULT_KEY_BINDINGS,
+    GLOBAL_SHORTCUT_KEYS,
+    KEY_BINDINGS_STORAGE_KEY
+} from '../constants/GameConfig';
+
+/**
+ * Rebindable actions in display order
+ */
+export const KEY_BINDING_ACTIONS: ReadonlyArray<{ action: KeyBindingAction; label: string }> = [
+    { action: 'up', label: 'Jump / Up' },
+    { action: 'down', label: 'Down' },
+    { action: 'left', label: 'Left' },
+    { action: 'right', label: 'Right' },
+    { action: 'attack', label: 'Attack' },
+    { action: 'switchMode', label: 'Switch Mode' },
+    { action: 'block', label: 'Block' },
+    { action: 'throw', label: 'Throw' },
+];
+
+const PLAYER_IDS: PlayerId[] = ['Player1', 'Player2'];
+
+const GLOBAL_SHORTCUT_LABELS: Record<string, string> = {
+    [GLOBAL_SHORTCUT_KEYS.restart]: 'Restart shortcut',
+    [GLOBAL_SHORTCUT_KEYS.pause]: 'Pause shortcut',
+    [GLOBAL_SHORTCUT_KEYS.trainingRecord]: 'Training record shortcut',
+    [GLOBAL_SHORTCUT_KEYS.hitboxOverlay]: 'Hitbox overlay shortcut',
+    [GLOBAL_SHORTCUT_KEYS.backToSetup]: 'Back to setup shortcut',
+};
+
+const ARROW_LABELS: Record<string, string> = {
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+    ArrowLeft: '←',
+    ArrowRight: '→',
+};
+
+export class KeyBindingStore {
+    /**
+     * @param storage - Where bindings are persisted; null keeps them in memory only
+     */
+    constructor(private readonly storage: Storage | null = KeyBindingStore.getLocalStorage()) { }
+
+    /**
+     * Saved bindings, falling back to defaults for anything missing or invalid
+     */
+    load(): Record<PlayerId, KeyBindings> {
+        const bindings = KeyBindingStore.getDefaults();
+        const saved = this.readSaved();
+        if (!saved) {
+            return bindings;
+        }
+
+        PLAYER_IDS.forEach(playerId => {
+            const savedPlayer = saved[playerId];
+            if (typeof savedPlayer !== 'object' || savedPlayer === null) return;
+
+            KEY_BINDING_ACTIONS.forEach(({ action }) => {
+                const key = (savedPlayer as Partial<Record<KeyBindingAction, unknown>>)[action];
+                if (typeof key === 'string' && key.length > 0) {
+                    bindings[playerId][action] = key;
+                }
+            });
+        });
+
+        // A hand-edited or outdated save must never leave the game unplayable
+        return KeyBindingStore.findConflicts(bindings).length > 0
+            ? KeyBindingStore.getDefaults()
+            : bindings;
+    }
+
+    /**
+     * Persist bindings (callers should reject conflicting maps first)
+     */
+    save(bindings: Record<PlayerId, KeyBindings>): void {
+        try {
+            this.storage?.setItem(KEY_BINDINGS_STORAGE_KEY, JSON.stringify(bindings));
+        } catch (error) {
+            console.warn('Could not save key bindings:', error);
+        }
+    }
+
+    /**
+     * Forget saved bindings and return the defaults
+     */
+    reset(): Record<PlayerId, KeyBindings> {
+        try {
+            this.storage?.removeItem(KEY_BINDINGS_STORAGE_KEY);
+        } catch (error) {
+            console.warn('Could not reset key bindings:', error);
+        }
+        return KeyBindingStore.getDefaults();
+    }
+
+    /**
+     * Fresh copy of the default bindings
+     */
+    static getDefaults(): Record<PlayerId, KeyBindings> {
+        return {
+            Player1: { ...DEFAULT_KEY_BINDINGS.Player1 },
+            Player2: { ...DEFAULT_KEY_BINDINGS.Player2 },
+        };
+    }
+
+    /**
+     * Every binding whose key is also used by another action, the other player
+     * or a global shortcut
+     */
+    static findConflicts(bindings: Record<PlayerId, KeyBindings>): KeyBindingConflict[] {
+        const owners = new Map<string, string[]>();
+        PLAYER_IDS.forEach(playerId => {
+            KEY_BINDING_ACTIONS.forEach(({ action }) => {
+                const key = bindings[playerId][action];
+                owners.set(key, [...(owners.get(key) ?? []), KeyBindingStore.describeAction(playerId, action)]);
+            });
+        });
+
+        const conflicts: KeyBindingConflict[] = [];
+        PLAYER_IDS.forEach(playerId => {
+            KEY_BINDING_ACTIONS.forEach(({ action }) => {
+                const key = bindings[playerId][action];
+                const self = KeyBindingStore.describeAction(playerId, action);
+                const otherOwner = GLOBAL_SHORTCUT_LABELS[key] ??
+                    owners.get(key)?.find(owner => owner !== self);
+
+                if (otherOwner) {
+                    conflicts.push({ playerId, action, key, conflictsWith: otherOwner });
+                }
+            });
+        });
+
+        return conflicts;
+    }
+
+    /**
+     * Short label for a KeyboardEvent.code ("KeyW" -> "W", "ArrowUp" -> "↑")
+     */
+    static formatKey(code: string): string {
+        const arrow = ARROW_LABELS[code];
+        if (arrow) return arrow;
+        if (code.startsWith('Key')) return code.slice(3);
+        if (code.startsWith('Digit')) return code.slice(5);
+        if (code.startsWith('Numpad')) return `Num ${code.slice(6)}`;
+        return code;
+    }
+
+    /**
+     * Display name of one player's action, e.g. "Player 2 Attack"
+     */
+    static describeAction(playerId: PlayerId, action: KeyBindingAction): string {
+        const label = KEY_BINDING_ACTIONS.find(entry => entry.action === action)?.label ?? action;
+        return `${playerId === 'Player1' ? 'Player 1' : 'Player 2'} ${label}`;
+    }
+
+    private readSaved(): Partial<Record<PlayerId, unknown>> | null {
+        try {
+            const raw = this.storage?.getItem(KEY_BINDINGS_STORAGE_KEY);
+            if (!raw) return null;
+
+            const parsed: unknown = JSON.parse(raw);
+            return typeof parsed === 'object' && parsed !== null
+                ? parsed as Partial<Record<PlayerId, unknown>>
+                : null;
+        } catch {
+            return null;
+        }
+    }
+
+    private static getLocalStorage(): Storage | null {
+        try {
+            return typeof localStorage === 'undefined' ? null : localStorage;
+        } catch {
+            // Access can throw when storage is disabled
+            return null;
+        }
+    }
+}
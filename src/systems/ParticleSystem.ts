@@ -76,6 +76,26 @@ export class ParticleSystem {
         this.spawn(position, 'hit', 5);
     }
 
+    /**
+     * Spawn a small, slow particle left behind by a moving effect
+     */
+    spawnTrail(position: Vector2, type: ParticleType): void {
+        const colors = this.getColorsForType(type);
+        const particle = this.pool.acquire();
+        const color = colors[Math.floor(Math.random() * colors.length)] ?? '#ffffff';
+
+        particle.init(
+            position.x + (Math.random() - 0.5) * 10,
+            position.y + (Math.random() - 0.5) * 10,
+            (Math.random() - 0.5) * 40,
+            (Math.random() - 0.5) * 40,
+            color,
+            type,
+            150 + Math.random() * 150,
+            3 + Math.random() * 4
+        );
+    }
+
     /**
      * Get color palette for particle type
      */
@@ -0,0 +1,120 @@
+/**
+ * Projectile System
+ * Moves pooled projectiles, resolves clashes between them and hits on characters.
+ * Impacts are published to observers (e.g. for particle effects).
+ */
+
+import type { Character } from '../entities/Character';
+import { Projectile } from '../entities/Projectile';
+import { ObjectPool } from '../patterns/pool/ObjectPool';
+import { Subject } from '../patterns/observer/Observer';
+import { CollisionSystem } from './CollisionSystem';
+import type { ProjectileImpactEvent, ProjectileSpawn } from '../types';
+import { CANVAS_HEIGHT, PROJECTILE_POOL_SIZE, STAGE_WIDTH } from '../constants/GameConfig';
+
+export class ProjectileSystem extends Subject<ProjectileImpactEvent> {
+    private pool: ObjectPool<Projectile>;
+
+    /**
+     * @param stageWidth - Projectiles past either end of the stage are removed
+     */
+    constructor(private readonly stageWidth: number = STAGE_WIDTH) {
+        super();
+        this.pool = new ObjectPool<Projectile>(
+            () => new Projectile(),
+            PROJECTILE_POOL_SIZE
+        );
+    }
+
+    /**
+     * Launch a projectile
+     */
+    spawn(spawn: ProjectileSpawn): Projectile {
+        const projectile = this.pool.acquire();
+        projectile.init(spawn);
+        return projectile;
+    }
+
+    /**
+     * Advance all projectiles by one step, then resolve clashes and hits
+     */
+    update(deltaTime: number, characters: readonly Character[]): void {
+        this.getProjectiles().forEach(projectile => {
+            if (!projectile.update(deltaTime) || this.isOffscreen(projectile)) {
+                this.pool.release(projectile);
+            }
+        });
+
+        this.resolveClashes();
+        this.resolveHits(characters);
+    }
+
+    /**
+     * Active projectiles in launch order
+     */
+    getProjectiles(): Projectile[] {
+        return [...this.pool.getActiveObjects()];
+    }
+
+    /**
+     * Render all active projectiles
+     */
+    render(ctx: CanvasRenderingContext2D, alpha: number = 1): void {
+        this.pool.getActiveObjects().forEach(projectile => {
+            projectile.render(ctx, alpha);
+        });
+    }
+
+    /**
+     * Remove all projectiles
+     */
+    clear(): void {
+        this.pool.releaseAll();
+    }
+
+    /**
+     * Opposing projectiles that touch cancel each other out
+     */
+    private resolveClashes(): void {
+        const projectiles = this.getProjectiles();
+
+        projectiles.forEach((projectile, index) => {
+            for (const other of projectiles.slice(index + 1)) {
+                if (!projectile.active) return;
+                if (!other.active || other.ownerId === projectile.ownerId) continue;
+
+                const clashPoint = CollisionSystem.getCollisionPoint(projectile.getRect(), other.getRect());
+                if (!clashPoint) continue;
+
+                this.pool.release(projectile);
+                this.pool.release(other);
+                this.notify({ kind: 'clash', position: clashPoint, particleType: 'spark' });
+            }
+        });
+    }
+
+    private resolveHits(characters: readonly Character[]): void {
+        this.getProjectiles().forEach(projectile => {
+            const target = characters.find(character =>
+                character.playerId !== projectile.ownerId &&
+                !character.isInvulnerable &&
+                CollisionSystem.checkAABB(projectile.getRect(), character.getHurtbox())
+            );
+            if (!target) return;
+
+            const hitPoint = CollisionSystem.getCollisionPoint(projectile.getRect(), target.getHurtbox());
+            target.takeDamage(projectile.result);
+            this.pool.release(projectile);
+
+            if (hitPoint) {
+                this.notify({ kind: 'hit', position: hitPoint, particleType: projectile.result.particleType });
+            }
+        });
+    }
+
+    private isOffscreen(projectile: Projectile): boolean {
+        const rect = projectile.getRect();
+        return rect.x + rect.width < 0 || rect.x > this.stageWidth ||
+            rect.y + rect.height < 0 || rect.y > CANVAS_HEIGHT;
+    }
+}
@@ -0,0 +1,320 @@
+/**
+ * Replay System
+ * Records per-frame input for both characters and plays it back
+ * through the same Command pipeline (Command Pattern)
+ */
+
+import type { Character, InputFlags } from '../entities/Character';
+import { SwitchModeCommand, type ICommand } from '../patterns/command/Command';
+import { CharacterFactory } from '../patterns/factory/CharacterFactory';
+import { InputStateTranslator } from './InputStateTranslator';
+import type {
+    InputState,
+    MatchCharacterSelection,
+    MatchRules,
+    PlayerId,
+    ReplayData,
+    ReplayInputTrack,
+    StageId
+} from '../types';
+import { REPLAY_FORMAT_VERSION, REPLAY_MAX_FRAMES, STAGES } from '../constants/GameConfig';
+
+type RecordedButton = 'left' | 'right' | 'up' | 'down' | 'attack' | 'block' | 'throw';
+
+/**
+ * Bit assigned to each held input in the compact frame mask
+ */
+const INPUT_BITS: Record<RecordedButton, number> = {
+    left: 1,
+    right: 2,
+    up: 4,
+    down: 8,
+    attack: 16,
+    block: 32,
+    throw: 64,
+};
+
+const RECORDED_BUTTONS = Object.keys(INPUT_BITS) as RecordedButton[];
+
+function encodeInputFlags(flags: InputFlags): number {
+    return RECORDED_BUTTONS.reduce(
+        (mask, button) => (flags[button] ? mask | INPUT_BITS[button] : mask),
+        0
+    );
+}
+
+function decodeInputMask(mask: number): Partial<InputState> {
+    const input: Partial<InputState> = {};
+    RECORDED_BUTTONS.forEach(button => {
+        input[button] = (mask & INPUT_BITS[button]) !== 0;
+    });
+    return input;
+}
+
+export interface ReplayMetadata {
+    seed: number;
+    selection: MatchCharacterSelection;
+    playerDisplayNames: Record<PlayerId, string>;
+    rules?: MatchRules;
+    stage?: StageId;
+}
+
+/**
+ * Replay Recorder - samples input flags once per simulation step
+ */
+export class ReplayRecorder {
+    private frameCount = 0;
+    private readonly tracks: Record<PlayerId, ReplayInputTrack> = {
+        Player1: { runs: [], switchModeFrames: [] },
+        Player2: { runs: [], switchModeFrames: [] },
+    };
+    private readonly pendingSwitches: Record<PlayerId, number> = {
+        Player1: 0,
+        Player2: 0,
+    };
+    private readonly roundRestarts: number[] = [];
+
+    constructor(private readonly metadata: ReplayMetadata) { }
+
+    /**
+     * Note that the current round starts over before the next recorded frame
+     */
+    recordRoundRestart(): void {
+        this.roundRestarts.push(this.frameCount);
+    }
+
+    /**
+     * Forget commands issued since the last recorded frame: the round reset
+     * that follows wipes their effect (e.g. a mode switch on the result screen)
+     */
+    discardPendingCommands(): void {
+        this.pendingSwitches.Player1 = 0;
+        this.pendingSwitches.Player2 = 0;
+    }
+
+    /**
+     * Note a command issued to a player between simulation steps
+     */
+    recordCommand(playerId: PlayerId, command: ICommand): void {
+        if (command instanceof SwitchModeCommand) {
+            this.pendingSwitches[playerId]++;
+        }
+    }
+
+    /**
+     * Capture the input in effect for the step about to run
+     */
+    recordFrame(player1: Character, player2: Character): void {
+        [player1, player2].forEach(character => {
+            const track = this.tracks[character.playerId];
+            const mask = encodeInputFlags(character.inputFlags);
+            const lastRun = track.runs[track.runs.length - 1];
+
+            if (lastRun && lastRun[0] === mask) {
+                lastRun[1]++;
+            } else {
+                track.runs.push([mask, 1]);
+            }
+
+            for (let i = 0; i < this.pendingSwitches[character.playerId]; i++) {
+                track.switchModeFrames.push(this.frameCount);
+            }
+            this.pendingSwitches[character.playerId] = 0;
+        });
+
+        this.frameCount++;
+    }
+
+    /**
+     * Build the versioned replay document recorded so far
+     */
+    toReplay(): ReplayData {
+        return {
+            version: REPLAY_FORMAT_VERSION,
+            seed: this.metadata.seed,
+            selection: { ...this.metadata.selection },
+            playerDisplayNames: { ...this.metadata.playerDisplayNames },
+            frameCount: this.frameCount,
+            inputs: {
+                Player1: this.cloneTrack(this.tracks.Player1),
+                Player2: this.cloneTrack(this.tracks.Player2),
+            },
+            ...(this.metadata.rules ? { rules: { ...this.metadata.rules } } : {}),
+            ...(this.roundRestarts.length > 0 ? { roundRestarts: [...this.roundRestarts] } : {}),
+            ...(this.metadata.stage ? { stage: this.metadata.stage } : {}),
+        };
+    }
+
+    private cloneTrack(track: ReplayInputTrack): ReplayInputTrack {
+        return {
+            runs: track.runs.map(([mask, count]) => [mask, count]),
+            switchModeFrames: [...track.switchModeFrames],
+        };
+    }
+}
+
+/**
+ * Replay Player - re-issues recorded input as commands, frame by frame
+ */
+export class ReplayPlayer {
+    private readonly frames: Record<PlayerId, number[]>;
+    private readonly switches: Record<PlayerId, Map<number, number>>;
+    private readonly translators: Record<PlayerId, InputStateTranslator> = {
+        Player1: new InputStateTranslator(),
+        Player2: new InputStateTranslator(),
+    };
+
+    constructor(readonly replay: ReplayData) {
+        this.frames = {
+            Player1: this.expandRuns(replay.inputs.Player1),
+            Player2: this.expandRuns(replay.inputs.Player2),
+        };
+        this.switches = {
+            Player1: this.countSwitches(replay.inputs.Player1),
+            Player2: this.countSwitches(replay.inputs.Player2),
+        };
+    }
+
+    /**
+     * Parse and validate a replay file
+     */
+    static parse(json: string): ReplayData {
+        let data: unknown;
+        try {
+            data = JSON.parse(json);
+        } catch {
+            throw new Error('Replay file is not valid JSON');
+        }
+
+        if (!ReplayPlayer.isReplayData(data)) {
+            throw new Error('Replay file is missing required fields');
+        }
+
+        if (data.version !== REPLAY_FORMAT_VERSION) {
+            throw new Error(`Unsupported replay version ${data.version}`);
+        }
+
+        if (
+            !CharacterFactory.isCharacterType(String(data.selection.Player1)) ||
+            !CharacterFactory.isCharacterType(String(data.selection.Player2))
+        ) {
+            throw new Error('Replay uses an unknown character');
+        }
+
+        return data;
+    }
+
+    /**
+     * Drive both characters with the input recorded for this frame
+     */
+    applyFrame(frame: number, player1: Character, player2: Character): void {
+        [player1, player2].forEach(character => {
+            const playerId = character.playerId;
+            const mask = this.frames[playerId][frame] ?? 0;
+            const commands = this.translators[playerId].toCommands(decodeInputMask(mask));
+
+            const switchCount = this.switches[playerId].get(frame) ?? 0;
+            for (let i = 0; i < switchCount; i++) {
+                commands.push(new SwitchModeCommand());
+            }
+
+            commands.forEach(command => command.execute(character));
+        });
+    }
+
+    /**
+     * Forget held input, to start over from frame 0 or a new round
+     * (characters must be reset by the caller)
+     */
+    rewind(): void {
+        this.translators.Player1.reset();
+        this.translators.Player2.reset();
+    }
+
+    getFrameCount(): number {
+        return this.replay.frameCount;
+    }
+
+    /**
+     * Frame of the nth round restart, in the order they happened
+     */
+    getRoundRestartFrame(index: number): number | null {
+        return this.replay.roundRestarts?.[index] ?? null;
+    }
+
+    private expandRuns(track: ReplayInputTrack): number[] {
+        const frames: number[] = [];
+        track.runs.forEach(([mask, count]) => {
+            for (let i = 0; i < count; i++) {
+                frames.push(mask);
+            }
+        });
+        return frames;
+    }
+
+    private countSwitches(track: ReplayInputTrack): Map<number, number> {
+        const counts = new Map<number, number>();
+        track.switchModeFrames.forEach(frame => {
+            counts.set(frame, (counts.get(frame) ?? 0) + 1);
+        });
+        return counts;
+    }
+
+    private static isReplayData(value: unknown): value is ReplayData {
+        if (typeof value !== 'object' || value === null) return false;
+
+        const candidate = value as Partial<ReplayData>;
+        const isCount = (count: unknown): count is number =>
+            typeof count === 'number' && Number.isInteger(count) && count >= 0;
+        const isFrameList = (frames: unknown): boolean =>
+            Array.isArray(frames) && frames.every(isCount);
+        const isNames = (names: unknown): boolean =>
+            typeof names === 'object' &&
+            names !== null &&
+            typeof (names as Record<PlayerId, unknown>).Player1 === 'string' &&
+            typeof (names as Record<PlayerId, unknown>).Player2 === 'string';
+
+        const isRules = (rules: unknown): boolean => {
+            if (typeof rules !== 'object' || rules === null) return false;
+            const { bestOf, roundTimeLimit } = rules as Partial<MatchRules>;
+            return (
+                isCount(bestOf) &&
+                bestOf % 2 === 1 &&
+                (roundTimeLimit === null || (typeof roundTimeLimit === 'number' && Number.isFinite(roundTimeLimit)))
+            );
+        };
+
+        // Runs are [mask, count] pairs covering exactly frameCount frames
+        const isTrack = (track: unknown, frameCount: number): boolean => {
+            if (typeof track !== 'object' || track === null) return false;
+
+            const { runs, switchModeFrames } = track as Partial<ReplayInputTrack>;
+            if (!Array.isArray(runs) || !isFrameList(switchModeFrames)) return false;
+
+            let frames = 0;
+            for (const run of runs as unknown[]) {
+                if (!Array.isArray(run) || run.length !== 2 || !isCount(run[0]) || !isCount(run[1])) {
+                    return false;
+                }
+                frames += run[1];
+            }
+            return frames === frameCount;
+        };
+
+        if (!isCount(candidate.frameCount) || candidate.frameCount > REPLAY_MAX_FRAMES) return false;
+
+        return (
+            typeof candidate.version === 'number' &&
+            typeof candidate.seed === 'number' &&
+            isNames(candidate.selection) &&
+            isNames(candidate.playerDisplayNames) &&
+            typeof candidate.inputs === 'object' &&
+            candidate.inputs !== null &&
+            isTrack(candidate.inputs.Player1, candidate.frameCount) &&
+            isTrack(candidate.inputs.Player2, candidate.frameCount) &&
+            (candidate.rules === undefined || isRules(candidate.rules)) &&
+            (candidate.roundRestarts === undefined || isFrameList(candidate.roundRestarts)) &&
+            (candidate.stage === undefined || Object.prototype.hasOwnProperty.call(STAGES, candidate.stage))
+        );
+    }
+}
@@ -0,0 +1,122 @@
+/**
+ * Training Dummy
+ * Drives the training-mode opponent with per-frame input snapshots, issued as
+ * the same commands a keyboard player produces (Command Pattern)
+ */
+
+import type { Character, InputFlags } from '../entities/Character';
+import type { ICommand } from '../patterns/command/Command';
+import { InputStateTranslator } from './InputStateTranslator';
+import type { DummyBehavior, InputState } from '../types';
+import { TRAINING_RECORDING_MAX_FRAMES } from '../constants/GameConfig';
+
+/**
+ * Same input seen in a mirror: left and right swap, so "forward" stays forward
+ * for a character facing the other way
+ */
+function mirrorInput(flags: InputFlags): Partial<InputState> {
+    return {
+        up: flags.up,
+        down: flags.down,
+        left: flags.right,
+        right: flags.left,
+        attack: flags.attack,
+        block: flags.block,
+        throw: flags.throw,
+    };
+}
+
+export class TrainingDummy {
+    private readonly translator = new InputStateTranslator();
+    private recording: Partial<InputState>[] | null = null;
+    private sequence: Partial<InputState>[] = [];
+    private playbackFrame = 0;
+
+    constructor(private behavior: DummyBehavior) { }
+
+    getBehavior(): DummyBehavior {
+        return this.behavior;
+    }
+
+    setBehavior(behavior: DummyBehavior): void {
+        this.behavior = behavior;
+        this.playbackFrame = 0;
+    }
+
+    /**
+     * Commands to execute on the dummy before the next simulation step
+     * @param player - The character being trained against (mirrored and recorded)
+     */
+    getCommands(_self: Character, player: Character): ICommand[] {
+        if (this.recording) {
+            this.recording.push(mirrorInput(player.inputFlags));
+            if (this.recording.length >= TRAINING_RECORDING_MAX_FRAMES) {
+                this.stopRecording();
+            }
+        }
+
+        return this.translator.toCommands(this.decide(player));
+    }
+
+    /**
+     * Start capturing the player's input; the dummy stands still meanwhile
+     */
+    startRecording(): void {
+        this.recording = [];
+    }
+
+    /**
+     * Keep what was captured and switch the dummy to playing it back
+     */
+    stopRecording(): void {
+        if (!this.recording) return;
+
+        if (this.recording.length > 0) {
+            this.sequence = this.recording;
+            this.setBehavior('playback');
+        }
+        this.recording = null;
+    }
+
+    isRecording(): boolean {
+        return this.recording !== null;
+    }
+
+    getRecordingLength(): number {
+        return this.recording?.length ?? this.sequence.length;
+    }
+
+    /**
+     * Forget held input (after the characters were reset); the recording is kept
+     */
+    reset(): void {
+        this.translator.reset();
+        this.recording = null;
+        this.playbackFrame = 0;
+    }
+
+    private decide(player: Character): Partial<InputState> {
+        if (this.recording) {
+            return {};
+        }
+
+        switch (this.behavior) {
+            case 'stand':
+                return {};
+            case 'jump':
+                return { up: true };
+            case 'block':
+                return { block: true };
+            case 'crouchBlock':
+                return { down: true, block: true };
+            case 'mirror':
+                return mirrorInput(player.inputFlags);
+            case 'playback': {
+                // Loop the recording
+                const input = this.sequence[this.playbackFrame % Math.max(1, this.sequence.length)] ?? {};
+                this.playbackFrame++;
+                return input;
+            }
+        }
+    }
+}
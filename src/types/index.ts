@@ -36,13 +36,14 @@ export type Direction = 'left' | 'right' | 'up' | 'down' | 'none';
 // State Types
 // ============================================
 
-export type CharacterStateName = 'idle' | 'move' | 'attack' | 'hit' | 'block';
+export type CharacterStateName =
+    'idle' | 'move' | 'crouch' | 'dash' | 'attack' | 'hit' | 'block' | 'special' | 'throw';
 
 // ============================================
 // Command Types
 // ============================================
 
-export type CommandType = 'move' | 'attack' | 'switchMode' | 'block';
+export type CommandType = 'move' | 'attack' | 'switchMode' | 'block' | 'throw';
 
 export interface MoveDirection {
     horizontal: Direction;
@@ -58,6 +59,130 @@ export interface AttackResult {
     knockback: Vector2;
     hitStun: number;
     particleType: ParticleType;
+    /** Element of the attack; untyped attacks are always neutral */
+    element?: ElementalMode;
+    /** Guard needed to block it; attacks without one are mid */
+    height?: AttackHeight;
+}
+
+/**
+ * Where an attack hits: lows must be blocked crouching, highs standing,
+ * mids either way
+ */
+export type AttackHeight = 'high' | 'mid' | 'low';
+
+/** How an attack's element fares against the defender's mode */
+export type ElementalMatchup = 'effective' | 'neutral' | 'resisted';
+
+export interface ElementalMatchupModifiers {
+    damage: number;
+    hitStun: number;
+    knockback: number;
+}
+
+export type HitOutcome = 'hit' | 'blocked';
+
+/**
+ * Special move hitbox, relative to the character facing right:
+ * offsetX from the front edge of the body, offsetY from the top
+ */
+export interface SpecialMoveHitbox {
+    offsetX: number;
+    offsetY: number;
+    width: number;
+    height: number;
+}
+
+/** Dash toward the opponent or backdash away from them */
+export type DashDirection = 'forward' | 'back';
+
+/**
+ * How far a mode dashes; an air dash distance of 0 means no air dash
+ */
+export interface DashProfile {
+    distance: number;
+    backdashDistance: number;
+    airDashDistance: number;
+}
+
+/**
+ * A mode's jumping normal (or Wind's air-dash attack)
+ */
+export interface AerialAttackProfile {
+    hitbox: SpecialMoveHitbox;
+    /** Damage relative to the mode's ground attack */
+    damageMultiplier: number;
+    /** Knockback for a right-facing attacker (mirrored when facing left) */
+    knockback: Vector2;
+    hitStun: number; // milliseconds
+    /** Recovery when the ground is reached before the attack ends */
+    landingRecovery: number; // milliseconds
+    /** Forward flight speed, turning the attack into an air dash */
+    dashSpeed?: number;
+}
+
+export interface SpecialMoveDefinition extends MotionInputDefinition {
+    startupFrames: number;
+    activeFrames: number;
+    recoveryFrames: number;
+    hitbox: SpecialMoveHitbox;
+    damage: number;
+    /** Knockback for a right-facing attacker (mirrored when facing left) */
+    knockback: Vector2;
+    hitStun: number; // milliseconds
+    particleType: ParticleType;
+    /** Guard needed to block it (mid when omitted) */
+    height?: AttackHeight;
+    /** Forward speed of the character during active frames (dashes) */
+    moveSpeed?: number;
+    /** Vertical velocity applied on the first active frame (risers) */
+    lift?: number;
+    /** Fired on the first active frame instead of using the hitbox (waves) */
+    projectile?: ProjectileProfile;
+    /** Super meter spent to perform the move */
+    meterCost?: number;
+    /** Freezes the fight for a moment when it starts (supers) */
+    cinematic?: boolean;
+}
+
+/**
+ * Cinematic pause while a super move starts
+ */
+export interface SuperFreeze {
+    playerId: PlayerId;
+    moveName: string;
+    framesLeft: number;
+}
+
+/**
+ * Shape and flight of a projectile; its size comes from the attack that fires it
+ */
+export interface ProjectileProfile {
+    speed: number; // pixels per second, forward
+    width: number;
+    height: number;
+    lifetime: number; // milliseconds
+}
+
+/**
+ * Everything needed to launch a projectile from the pool
+ */
+export interface ProjectileSpawn {
+    ownerId: PlayerId;
+    element: ElementalMode;
+    position: Vector2;
+    width: number;
+    height: number;
+    velocity: Vector2;
+    lifetime: number; // milliseconds
+    /** Applied to the character it hits; knockback already points along the flight */
+    result: AttackResult;
+}
+
+export interface ProjectileImpactEvent {
+    kind: 'hit' | 'clash';
+    position: Vector2;
+    particleType: ParticleType;
 }
 
 export interface DamageInfo {
@@ -91,6 +216,66 @@ export interface ParticleConfig {
     color: string;
 }
 
+// ============================================
+// Stage Types
+// ============================================
+
+export type StageId = 'NeonDojo' | 'EmberCanyon' | 'TidalHarbor';
+
+/**
+ * Row of background silhouettes scrolling slower than the fight (parallax)
+ */
+export interface StageBackgroundLayer {
+    shape: 'mountains' | 'towers' | 'waves';
+    color: string;
+    /** 0 stays fixed on screen, 1 moves with the fighters */
+    scrollFactor: number;
+    /** Bottom edge of the layer (world y) */
+    baseY: number;
+    /** Tallest silhouette above baseY */
+    height: number;
+    /** Horizontal distance between silhouettes */
+    spacing: number;
+}
+
+/**
+ * Terrain characters collide with: one-way platforms are only solid from above
+ * (jump up through them, hold down to drop through), blocks are solid on every side
+ */
+export interface StageSurface {
+    type: 'platform' | 'block';
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface StageTheme {
+    skyColors: [string, string, string];
+    groundColors: [string, string];
+    lineColor: string;
+    wallColor: string;
+}
+
+export interface StageDefinition {
+    id: StageId;
+    name: string;
+    width: number;
+    /** Floor the characters stand on (world y) */
+    groundY: number;
+    /** Inner faces of the walls that stop the characters (world x) */
+    walls: { left: number; right: number };
+    /** Furthest the fighters may drift apart (body edge to body edge), so both stay on camera */
+    maxPlayerDistance: number;
+    /** Round start x of each character */
+    startX: Record<PlayerId, number>;
+    /** Platforms and blocks standing above the floor */
+    surfaces: StageSurface[];
+    theme: StageTheme;
+    /** Drawn back to front */
+    layers: StageBackgroundLayer[];
+}
+
 // ============================================
 // Input Types
 // ============================================
@@ -102,6 +287,36 @@ export interface KeyBindings {
     right: string;
     attack: string;
     switchMode: string;
+    block: string;
+    throw: string;
+}
+
+/**
+ * Direction in numpad notation relative to the opponent:
+ * 6 = forward (toward opponent), 4 = back, 2 = down, 8 = up, 5 = neutral
+ */
+export type NumpadDirection = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+
+export type BufferedButton = 'attack' | 'block' | 'throw';
+
+/** Command sequence such as down, down-forward, forward + attack (236A) */
+export interface MotionInputDefinition {
+    name: string;
+    motion: readonly NumpadDirection[];
+    button: BufferedButton;
+    /** Only recognised while the character is in this mode */
+    mode?: ElementalMode;
+}
+
+export type KeyBindingAction = keyof KeyBindings;
+
+/** A key bound to an action that is already taken elsewhere */
+export interface KeyBindingConflict {
+    playerId: PlayerId;
+    action: KeyBindingAction;
+    key: string;
+    /** Human-readable owner of the key, e.g. "Player 2 attack" or "Pause shortcut" */
+    conflictsWith: string;
 }
 
 export interface InputState {
@@ -111,13 +326,22 @@ export interface InputState {
     right: boolean;
     attack: boolean;
     switchMode: boolean;
+    block: boolean;
+    throw: boolean;
 }
 
+export type GamepadSlot = 0 | 1 | 2 | 3;
+
+/** Device a human player controls their character with */
+export type InputSource = 'keyboard' | GamepadSlot;
+
 export interface CharacterSelectionOption {
     type: CharacterType;
     name: string;
     description: string;
     modes: [ElementalMode, ElementalMode];
+    /** Move list lines, e.g. "Flame Wave (Fire): ↓ → + Attack" */
+    specialMoves: string[];
 }
 
 export interface MatchCharacterSelection {
@@ -125,6 +349,57 @@ export interface MatchCharacterSelection {
     Player2: CharacterType;
 }
 
+// ============================================
+// CPU Opponent Types
+// ============================================
+
+export type CpuDifficulty = 'Easy' | 'Normal' | 'Hard';
+
+/** Who drives a character: a human at the keyboard or a CPU of some difficulty */
+export type PlayerController = 'Human' | CpuDifficulty;
+
+export interface CpuDifficultySettings {
+    /** Frames between two decisions (how late the CPU reacts to what it sees) */
+    reactionDelayFrames: number;
+    /** Chance to commit to an attack when in range and off cooldown */
+    attackChance: number;
+    /** Chance to guard against an attack it notices */
+    blockChance: number;
+    /** Chance that a mode switch is picked for the situation rather than at random */
+    modeSwitchAccuracy: number;
+    /** Minimum frames between two mode switches */
+    modeSwitchIntervalFrames: number;
+}
+
+// ============================================
+// Training Mode Types
+// ============================================
+
+/** What the training dummy does on its own */
+export type DummyBehavior = 'stand' | 'jump' | 'block' | 'crouchBlock' | 'mirror' | 'playback';
+
+export interface TrainingOptions {
+    dummyBehavior: DummyBehavior;
+    /** Refill health once a character recovers, so nobody is ever knocked out */
+    infiniteHealth: boolean;
+    /** Clear attack cooldowns every frame */
+    instantCooldowns: boolean;
+}
+
+/**
+ * Numbers for the last hit that landed (or was blocked)
+ */
+export interface FrameDataReport {
+    attackerId: PlayerId;
+    /** Damage after the defender's mode reduced it */
+    damage: number;
+    blocked: boolean;
+    /** Frames the defender stayed in hitstun or blockstun (null until it recovers) */
+    stunFrames: number | null;
+    /** Attacker recovery minus defender recovery; positive means the attacker acts first */
+    frameAdvantage: number | null;
+}
+
 // ============================================
 // Health Event Types (for Observer Pattern)
 // ============================================
@@ -134,6 +409,8 @@ export interface HealthChangeEvent {
     currentHealth: number;
     maxHealth: number;
     damage: number;
+    /** Set when a hit was scaled by the elemental advantage table */
+    matchup?: ElementalMatchup;
 }
 
 export interface ModeChangeEvent {
@@ -141,6 +418,106 @@ export interface ModeChangeEvent {
     newMode: ElementalMode;
 }
 
+/**
+ * Hits landed on a character while it was still in hitstun. Sent on every
+ * hit from the second one on, and once more when the combo ends.
+ */
+export interface ComboEvent {
+    /** The attacker building the combo */
+    playerId: PlayerId;
+    targetId: PlayerId;
+    hits: number;
+    damage: number;
+    finished: boolean;
+}
+
+export interface MeterChangeEvent {
+    playerId: PlayerId;
+    meter: number;
+    maxMeter: number;
+}
+
+/** Everything a Character publishes to its observers */
+export type CharacterEvent = HealthChangeEvent | ModeChangeEvent | ComboEvent | MeterChangeEvent;
+
+// ============================================
+// Headless Simulation Types
+// ============================================
+
+export type MatchEventType = 'damage' | 'modeChange' | 'combo' | 'knockout';
+
+export interface MatchEvent {
+    frame: number;
+    type: MatchEventType;
+    playerId: PlayerId;
+    damage?: number;
+    health?: number;
+    mode?: ElementalMode;
+    hits?: number;
+}
+
+/** Who took the match, or 'Draw' after a double K.O. or an even time-out */
+export type MatchOutcome = PlayerId | 'Draw';
+
+export interface MatchResult {
+    /** null when the frame limit was reached first */
+    winner: MatchOutcome | null;
+    finalHealth: Record<PlayerId, number>;
+    frames: number;
+    events: MatchEvent[];
+    rounds: RoundResult[];
+}
+
+// ============================================
+// Match Rules
+// ============================================
+
+export type RoundsBestOf = 1 | 3 | 5;
+
+export interface MatchRules {
+    bestOf: RoundsBestOf;
+    /** Seconds per round, or null for no time limit */
+    roundTimeLimit: number | null;
+}
+
+export type RoundEndReason = 'knockout' | 'doubleKnockout' | 'timeout';
+
+export interface RoundResult {
+    round: number;
+    /** null when the round was drawn (both players are credited with it) */
+    winner: PlayerId | null;
+    reason: RoundEndReason;
+}
+
+/** Where the engine is within the current round */
+export type RoundPhase = 'intro' | 'fighting' | 'roundOver' | 'matchOver';
+
+// ============================================
+// Replay Types
+// ============================================
+
+export interface ReplayInputTrack {
+    /** Run-length encoded input bitmasks as [mask, frameCount] pairs */
+    runs: Array<[number, number]>;
+    /** Frames on which a SwitchModeCommand was executed (repeated if several) */
+    switchModeFrames: number[];
+}
+
+export interface ReplayData {
+    version: number;
+    seed: number;
+    selection: MatchCharacterSelection;
+    playerDisplayNames: Record<PlayerId, string>;
+    frameCount: number;
+    inputs: Record<PlayerId, ReplayInputTrack>;
+    /** Missing in older replays, which were always a single untimed round */
+    rules?: MatchRules;
+    /** Frames at which a round was restarted from the pause menu */
+    roundRestarts?: number[];
+    /** Missing in older replays, which were all fought on the default stage */
+    stage?: StageId;
+}
+
 // ============================================
 // Object Pool Interface
 // ============================================
@@ -157,6 +534,9 @@ export interface IPoolable {
 export interface GameState {
     isRunning: boolean;
     isPaused: boolean;
-    winner: PlayerId | null;
+    winner: MatchOutcome | null;
     roundTime: number;
+    round: number;
+    roundWins: Record<PlayerId, number>;
+    phase: RoundPhase;
 }
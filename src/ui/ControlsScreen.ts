@@ -0,0 +1,169 @@
+/**
+ * Controls Screen
+ * DOM overlay for rebinding each player's keys, with conflict detection
+ */
+
+import { KEY_BINDING_ACTIONS, KeyBindingStore } from '../systems/KeyBindingStore';
+import type { KeyBindingAction, KeyBindings, PlayerId } from '../types';
+
+const PLAYER_COLUMNS: PlayerId[] = ['Player1', 'Player2'];
+
+export class ControlsScreen {
+    private bindings: Record<PlayerId, KeyBindings>;
+    private listeningFor: { playerId: PlayerId; action: KeyBindingAction } | null = null;
+    private closeCallback: (() => void) | null = null;
+
+    /**
+     * @param onSave - Receives the new bindings after they were persisted
+     */
+    constructor(
+        private readonly store: KeyBindingStore,
+        private readonly onSave: (bindings: Record<PlayerId, KeyBindings>) => void
+    ) {
+        this.bindings = store.load();
+        this.handleKeyDown = this.handleKeyDown.bind(this);
+
+        document.getElementById('controlsResetButton')?.addEventListener('click', () => {
+            this.listeningFor = null;
+            this.bindings = KeyBindingStore.getDefaults();
+            this.render();
+        });
+        document.getElementById('controlsSaveButton')?.addEventListener('click', () => this.save());
+        document.getElementById('controlsCloseButton')?.addEventListener('click', () => this.close());
+    }
+
+    /**
+     * Show the screen with the currently saved bindings
+     * @param onClose - Called once the screen is closed (saved or cancelled)
+     */
+    open(onClose?: () => void): void {
+        this.bindings = this.store.load();
+        this.listeningFor = null;
+        this.closeCallback = onClose ?? null;
+        this.render();
+
+        document.getElementById('controlsOverlay')?.classList.remove('hidden');
+        // Capture phase: rebinding must win over gameplay input and global shortcuts
+        window.addEventListener('keydown', this.handleKeyDown, true);
+    }
+
+    /**
+     * Hide the screen, discarding unsaved changes
+     */
+    close(): void {
+        if (!this.isOpen()) return;
+
+        this.listeningFor = null;
+        document.getElementById('controlsOverlay')?.classList.add('hidden');
+        window.removeEventListener('keydown', this.handleKeyDown, true);
+
+        const callback = this.closeCallback;
+        this.closeCallback = null;
+        callback?.();
+    }
+
+    isOpen(): boolean {
+        return !document.getElementById('controlsOverlay')?.classList.contains('hidden');
+    }
+
+    private save(): void {
+        if (KeyBindingStore.findConflicts(this.bindings).length > 0) {
+            return;
+        }
+
+        this.store.save(this.bindings);
+        this.onSave(this.store.load());
+        this.close();
+    }
+
+    private handleKeyDown(event: KeyboardEvent): void {
+        event.preventDefault();
+        event.stopImmediatePropagation();
+
+        if (!this.listeningFor) {
+            if (event.code === 'Escape') {
+                this.close();
+            }
+            return;
+        }
+
+        // Escape cancels the rebind instead of being bound
+        if (event.code !== 'Escape') {
+            const { playerId, action } = this.listeningFor;
+            this.bindings[playerId][action] = event.code;
+        }
+
+        this.listeningFor = null;
+        this.render();
+    }
+
+    private render(): void {
+        const body = document.getElementById('controlsTableBody');
+        const message = document.getElementById('controlsMessage');
+        const saveButton = document.getElementById('controlsSaveButton') as HTMLButtonElement | null;
+        if (!body || !message) return;
+
+        const conflicts = KeyBindingStore.findConflicts(this.bindings);
+        body.innerHTML = '';
+
+        KEY_BINDING_ACTIONS.forEach(({ action, label }) => {
+            const row = document.createElement('tr');
+
+            const actionCell = document.createElement('td');
+            actionCell.textContent = label;
+            row.appendChild(actionCell);
+
+            PLAYER_COLUMNS.forEach(playerId => {
+                const cell = document.createElement('td');
+                const button = document.createElement('button');
+                const isListening =
+                    this.listeningFor?.playerId === playerId && this.listeningFor.action === action;
+
+                button.type = 'button';
+                button.className = 'key-binding-button';
+                button.textContent = isListening
+                    ? 'Press a key...'
+                    : KeyBindingStore.formatKey(this.bindings[playerId][action]);
+                button.classList.toggle('listening', isListening);
+                button.classList.toggle(
+                    'conflict',
+                    conflicts.some(conflict => conflict.playerId === playerId && conflict.action === action)
+                );
+                button.addEventListener('click', () => {
+                    this.listeningFor = { playerId, action };
+                    this.render();
+                });
+
+                cell.appendChild(button);
+                row.appendChild(cell);
+            });
+
+            body.appendChild(row);
+        });
+
+        if (this.listeningFor) {
+            message.textContent = 'Press the new key (Esc cancels).';
+        } else if (conflicts.length > 0) {
+            const conflictingKeys = [...new Set(conflicts.map(conflict => conflict.key))];
+            message.textContent = conflictingKeys
+                .map(key => {
+                    const owners = new Set<string>();
+                    conflicts
+                        .filter(conflict => conflict.key === key)
+                        .forEach(conflict => {
+                            owners.add(KeyBindingStore.describeAction(conflict.playerId, conflict.action));
+                            owners.add(conflict.conflictsWith);
+                        });
+                    return `${KeyBindingStore.formatKey(key)} is used by ${[...owners].join(' and ')}.`;
+                })
+                .join(' ');
+        } else {
+            message.textContent = 'Click a key to rebind it.';
+        }
+
+        message.classList.toggle('error', conflicts.length > 0 && !this.listeningFor);
+        if (saveButton) {
+            saveButton.disabled = conflicts.length > 0;
+        }
+    }
+}
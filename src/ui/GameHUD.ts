@@ -5,11 +5,28 @@
 
 import type { Character } from '../entities/Character';
 import type { IObserver } from '../patterns/observer/Observer';
-import type { ElementalMode, ModeChangeEvent, PlayerId } from '../types';
-import { CANVAS_HEIGHT, CANVAS_WIDTH, MAX_HEALTH } from '../constants/GameConfig';
+import type {
+    CharacterEvent,
+    ComboEvent,
+    ElementalMatchup,
+    ElementalMode,
+    MatchRules,
+    PlayerId
+} from '../types';
+import {
+    CANVAS_HEIGHT,
+    CANVAS_WIDTH,
+    COMBO_CALLOUT_DURATION,
+    HEALTH_BAR_PADDING,
+    HEALTH_BAR_WIDTH,
+    MATCHUP_CALLOUT_DURATION,
+    MAX_HEALTH,
+    ROUND_INTRO_DURATION,
+    ROUND_INTRO_FIGHT_SHARE
+} from '../constants/GameConfig';
 import { HealthBar } from './HealthBar';
 
-export class GameHUD implements IObserver<ModeChangeEvent> {
+export class GameHUD implements IObserver<CharacterEvent> {
     private healthBars: Map<PlayerId, HealthBar> = new Map();
     private modeSwitchEffects: Array<{
         x: number;
@@ -18,9 +35,32 @@ export class GameHUD implements IObserver<ModeChangeEvent> {
         alpha: number;
         scale: number;
     }> = [];
+    private matchupCallouts: Array<{
+        playerId: PlayerId;
+        matchup: ElementalMatchup;
+        timeLeft: number;
+    }> = [];
+    // One per attacker: grows with each hit, lingers once the combo ends
+    private comboCallouts: Map<PlayerId, {
+        hits: number;
+        damage: number;
+        finished: boolean;
+        timeLeft: number;
+    }> = new Map();
+    // Shown one after another in the middle of the screen
+    private announcements: Array<{
+        title: string;
+        subtitle: string;
+        timeLeft: number;
+        duration: number;
+    }> = [];
+
+    private roundsToWin = 1;
+    private roundTimeLeft: number | null = null;
 
     private playerModes: Map<PlayerId, ElementalMode> = new Map();
     private playerNames: Map<PlayerId, string> = new Map();
+    private controlsHint = 'WASD + F/G/H (Left Player) | ↑←↓→ + K/L/J (Right Player) | ESC: Back to Setup';
 
     constructor() {
         // Initialize health bars
@@ -52,7 +92,7 @@ export class GameHUD implements IObserver<ModeChangeEvent> {
 
         this.playerModes.set(character.playerId, character.getModeName());
 
-        // Subscribe to mode changes
+        // Subscribe to mode changes and matchup callouts
         character.attach(this);
     }
 
@@ -71,9 +111,72 @@ export class GameHUD implements IObserver<ModeChangeEvent> {
     }
 
     /**
-     * Observer update for mode changes
+     * Update the controls line shown at the bottom of the screen
+     */
+    setControlsHint(hint: string): void {
+        this.controlsHint = hint;
+    }
+
+    /**
+     * Show round pips for the match rules; the timer starts full
+     */
+    setMatchRules(rules: MatchRules): void {
+        this.roundsToWin = Math.ceil(rules.bestOf / 2);
+        this.roundTimeLeft = rules.roundTimeLimit;
+        this.setRoundWins({ Player1: 0, Player2: 0 });
+    }
+
+    /**
+     * Seconds left in the round, or null for an untimed round
+     */
+    setRoundTimer(secondsLeft: number | null): void {
+        this.roundTimeLeft = secondsLeft;
+    }
+
+    setRoundWins(wins: Record<PlayerId, number>): void {
+        this.healthBars.forEach((bar, playerId) => bar.setRoundWins(wins[playerId], this.roundsToWin));
+    }
+
+    /**
+     * "Round 2" (or "Final Round") followed by "Fight!"
+     */
+    showRoundIntro(round: number, isFinalRound: boolean): void {
+        const fightDuration = ROUND_INTRO_DURATION * ROUND_INTRO_FIGHT_SHARE;
+        const title = isFinalRound ? 'Final Round' : `Round ${round}`;
+
+        this.announcements = [];
+        this.showAnnouncement(title, '', ROUND_INTRO_DURATION - fightDuration);
+        this.showAnnouncement('Fight!', '', fightDuration);
+    }
+
+    /**
+     * Queue a big centered message such as "K.O." or "TIME"
+     */
+    showAnnouncement(title: string, subtitle: string, duration: number): void {
+        this.announcements.push({ title, subtitle, timeLeft: duration, duration });
+    }
+
+    /**
+     * Observer update for mode changes, combos and elemental matchups on hits
+     * (health and meter go straight to the player's HealthBar)
      */
-    update(data: ModeChangeEvent): void {
+    update(data: CharacterEvent): void {
+        if ('hits' in data) {
+            this.showComboCallout(data);
+            return;
+        }
+
+        if ('meter' in data) {
+            return;
+        }
+
+        if (!('newMode' in data)) {
+            if (data.matchup && data.matchup !== 'neutral') {
+                this.showMatchupCallout(data.playerId, data.matchup);
+            }
+            return;
+        }
+
         this.playerModes.set(data.playerId, data.newMode);
         this.addModeSwitchEffect(
             data.playerId === 'Player1' ? 55 : CANVAS_WIDTH - 55,
@@ -93,6 +196,27 @@ export class GameHUD implements IObserver<ModeChangeEvent> {
             effect.scale += deltaTime * 3;
             return effect.alpha > 0;
         });
+
+        this.matchupCallouts = this.matchupCallouts.filter(callout => {
+            callout.timeLeft -= deltaTime;
+            return callout.timeLeft > 0;
+        });
+
+        this.comboCallouts.forEach((callout, playerId) => {
+            if (!callout.finished) return;
+            callout.timeLeft -= deltaTime;
+            if (callout.timeLeft <= 0) {
+                this.comboCallouts.delete(playerId);
+            }
+        });
+
+        const announcement = this.announcements[0];
+        if (announcement) {
+            announcement.timeLeft -= deltaTime;
+            if (announcement.timeLeft <= 0) {
+                this.announcements.shift();
+            }
+        }
     }
 
     /**
@@ -102,7 +226,11 @@ export class GameHUD implements IObserver<ModeChangeEvent> {
         this.healthBars.forEach(bar => bar.render(ctx));
         this.renderModeIndicators(ctx);
         this.renderModeSwitchEffects(ctx);
+        this.renderMatchupCallouts(ctx);
+        this.renderComboCallouts(ctx);
         this.renderGameInfo(ctx);
+        this.renderRoundTimer(ctx);
+        this.renderAnnouncement(ctx);
     }
 
     /**
@@ -166,6 +294,109 @@ export class GameHUD implements IObserver<ModeChangeEvent> {
         });
     }
 
+    /**
+     * Render "Effective!" / "Resisted" under the health bar of the player who was hit
+     */
+    private renderMatchupCallouts(ctx: CanvasRenderingContext2D): void {
+        this.matchupCallouts.forEach(callout => {
+            const barCenter = HEALTH_BAR_PADDING + HEALTH_BAR_WIDTH / 2;
+            const x = callout.playerId === 'Player1' ? barCenter : CANVAS_WIDTH - barCenter;
+            const isEffective = callout.matchup === 'effective';
+
+            ctx.save();
+            ctx.globalAlpha = Math.min(1, callout.timeLeft / (MATCHUP_CALLOUT_DURATION / 3));
+            ctx.fillStyle = isEffective ? '#facc15' : '#94a3b8';
+            ctx.shadowColor = ctx.fillStyle;
+            ctx.shadowBlur = isEffective ? 12 : 0;
+            ctx.font = isEffective ? 'bold 20px Arial' : 'italic bold 16px Arial';
+            ctx.textAlign = 'center';
+            ctx.fillText(isEffective ? 'Effective!' : 'Resisted', x, 136);
+            ctx.restore();
+        });
+    }
+
+    /**
+     * Show a matchup callout, replacing the previous one for the same player
+     */
+    private showMatchupCallout(playerId: PlayerId, matchup: ElementalMatchup): void {
+        this.matchupCallouts = this.matchupCallouts.filter(callout => callout.playerId !== playerId);
+        this.matchupCallouts.push({ playerId, matchup, timeLeft: MATCHUP_CALLOUT_DURATION });
+    }
+
+    /**
+     * Render "5 HIT — 38 DMG" on the attacker's side of the screen
+     */
+    private renderComboCallouts(ctx: CanvasRenderingContext2D): void {
+        this.comboCallouts.forEach((callout, playerId) => {
+            const barCenter = HEALTH_BAR_PADDING + HEALTH_BAR_WIDTH / 2;
+            const x = playerId === 'Player1' ? barCenter : CANVAS_WIDTH - barCenter;
+            const y = CANVAS_HEIGHT / 2 + 30;
+
+            ctx.save();
+            ctx.globalAlpha = Math.min(1, callout.timeLeft / (COMBO_CALLOUT_DURATION / 3));
+            ctx.textAlign = 'center';
+            ctx.fillStyle = '#fb923c';
+            ctx.shadowColor = '#f97316';
+            ctx.shadowBlur = callout.finished ? 0 : 14;
+            ctx.font = 'bold 26px Arial';
+            ctx.fillText(`${callout.hits} HIT — ${Math.round(callout.damage)} DMG`, x, y);
+            ctx.restore();
+        });
+    }
+
+    private showComboCallout(event: ComboEvent): void {
+        this.comboCallouts.set(event.playerId, {
+            hits: event.hits,
+            damage: event.damage,
+            finished: event.finished,
+            timeLeft: COMBO_CALLOUT_DURATION,
+        });
+    }
+
+    /**
+     * Render the round timer between the health bars
+     */
+    private renderRoundTimer(ctx: CanvasRenderingContext2D): void {
+        const label = this.roundTimeLeft === null ? '∞' : String(Math.ceil(this.roundTimeLeft));
+        const isRunningOut = this.roundTimeLeft !== null && this.roundTimeLeft <= 10;
+
+        ctx.save();
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+        ctx.fillRect(CANVAS_WIDTH / 2 - 32, 40, 64, 40);
+
+        ctx.fillStyle = isRunningOut ? '#f87171' : '#ffffff';
+        ctx.font = 'bold 28px Arial';
+        ctx.textAlign = 'center';
+        ctx.fillText(label, CANVAS_WIDTH / 2, 70);
+        ctx.restore();
+    }
+
+    /**
+     * Render the current announcement, fading out at the end
+     */
+    private renderAnnouncement(ctx: CanvasRenderingContext2D): void {
+        const announcement = this.announcements[0];
+        if (!announcement) return;
+
+        const centerY = CANVAS_HEIGHT / 2 - 60;
+
+        ctx.save();
+        ctx.globalAlpha = Math.min(1, announcement.timeLeft / Math.min(0.2, announcement.duration));
+        ctx.fillStyle = '#ffffff';
+        ctx.shadowColor = '#facc15';
+        ctx.shadowBlur = 20;
+        ctx.font = 'bold 56px Arial';
+        ctx.textAlign = 'center';
+        ctx.fillText(announcement.title, CANVAS_WIDTH / 2, centerY);
+
+        if (announcement.subtitle) {
+            ctx.shadowBlur = 0;
+            ctx.font = '20px Arial';
+            ctx.fillText(announcement.subtitle, CANVAS_WIDTH / 2, centerY + 40);
+        }
+        ctx.restore();
+    }
+
     /**
      * Render game info
      */
@@ -179,7 +410,7 @@ export class GameHUD implements IObserver<ModeChangeEvent> {
         ctx.fillStyle = 'rgba(255, 255, 255, 0.5)';
         ctx.font = '11px Arial';
         ctx.fillText(
-            'WASD + F/G (Left Player) | Arrows + K/L (Right Player) | ESC: Back to Setup',
+            this.controlsHint,
             CANVAS_WIDTH / 2,
             CANVAS_HEIGHT - 15
         );
@@ -243,5 +474,8 @@ export class GameHUD implements IObserver<ModeChangeEvent> {
     reset(): void {
         this.healthBars.forEach(bar => bar.reset());
         this.modeSwitchEffects = [];
+        this.matchupCallouts = [];
+        this.comboCallouts.clear();
+        this.announcements = [];
     }
 }
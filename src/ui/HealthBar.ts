@@ -1,18 +1,23 @@
 /**
  * Health Bar UI Component
- * Subscribes to character health changes (Observer Pattern)
+ * Subscribes to character health and super meter changes (Observer Pattern)
  */
 
 import type { IObserver } from '../patterns/observer/Observer';
-import type { HealthChangeEvent, PlayerId } from '../types';
+import type { HealthChangeEvent, MeterChangeEvent, PlayerId } from '../types';
 import {
     HEALTH_BAR_WIDTH,
     HEALTH_BAR_HEIGHT,
     HEALTH_BAR_PADDING,
-    CANVAS_WIDTH
+    CANVAS_WIDTH,
+    SUPER_METER_BAR_SIZE,
+    SUPER_METER_MAX
 } from '../constants/GameConfig';
 
-export class HealthBar implements IObserver<HealthChangeEvent> {
+const METER_BAR_Y = 100;
+const METER_BAR_HEIGHT = 10;
+
+export class HealthBar implements IObserver<HealthChangeEvent | MeterChangeEvent> {
     private currentHealth: number;
     private displayHealth: number; // For smooth animation
     private maxHealth: number;
@@ -29,6 +34,14 @@ export class HealthBar implements IObserver<HealthChangeEvent> {
     // Visual
     private damageFlashAlpha = 0;
 
+    // Round-win pips
+    private roundWins = 0;
+    private roundsToWin = 1;
+
+    // Super meter
+    private meter = 0;
+    private maxMeter = SUPER_METER_MAX;
+
     constructor(playerId: PlayerId, maxHealth: number) {
         this.playerId = playerId;
         this.maxHealth = maxHealth;
@@ -45,10 +58,18 @@ export class HealthBar implements IObserver<HealthChangeEvent> {
     }
 
     /**
-     * Observer update method - receives health changes
+     * Observer update method - receives health and meter changes
      */
-    update(data: HealthChangeEvent): void {
-        if ('currentHealth' in data && data.playerId === this.playerId) {
+    update(data: HealthChangeEvent | MeterChangeEvent): void {
+        if (data.playerId !== this.playerId) return;
+
+        if ('meter' in data) {
+            this.meter = data.meter;
+            this.maxMeter = data.maxMeter;
+            return;
+        }
+
+        if ('currentHealth' in data) {
             this.currentHealth = data.currentHealth;
             this.maxHealth = data.maxHealth;
 
@@ -79,6 +100,14 @@ export class HealthBar implements IObserver<HealthChangeEvent> {
         }
     }
 
+    /**
+     * Set how many round-win pips are filled, out of the wins a match needs
+     */
+    setRoundWins(wins: number, roundsToWin: number): void {
+        this.roundWins = wins;
+        this.roundsToWin = roundsToWin;
+    }
+
     /**
      * Update health bar animation
      */
@@ -180,9 +209,84 @@ export class HealthBar implements IObserver<HealthChangeEvent> {
             this.y + HEALTH_BAR_HEIGHT / 2 + 4
         );
 
+        this.renderRoundPips(ctx);
+        this.renderMeter(ctx);
+
+        ctx.restore();
+    }
+
+    /**
+     * Super meter beneath the health bar, split into spendable bars
+     */
+    private renderMeter(ctx: CanvasRenderingContext2D): void {
+        const fillWidth = HEALTH_BAR_WIDTH * (this.meter / this.maxMeter);
+        const fullBars = Math.floor(this.meter / SUPER_METER_BAR_SIZE);
+        const isFull = this.meter >= this.maxMeter;
+
+        ctx.save();
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+        ctx.fillRect(this.x - 2, METER_BAR_Y - 2, HEALTH_BAR_WIDTH + 4, METER_BAR_HEIGHT + 4);
+
+        ctx.fillStyle = isFull ? '#facc15' : '#38bdf8';
+        ctx.shadowColor = ctx.fillStyle;
+        ctx.shadowBlur = isFull ? 12 : 0;
+        ctx.fillRect(
+            this.playerId === 'Player2' ? this.x + HEALTH_BAR_WIDTH - fillWidth : this.x,
+            METER_BAR_Y,
+            fillWidth,
+            METER_BAR_HEIGHT
+        );
+        ctx.shadowBlur = 0;
+
+        // Dividers between bars
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.8)';
+        ctx.lineWidth = 1;
+        for (let bar = SUPER_METER_BAR_SIZE; bar < this.maxMeter; bar += SUPER_METER_BAR_SIZE) {
+            const x = this.x + HEALTH_BAR_WIDTH * (bar / this.maxMeter);
+            ctx.beginPath();
+            ctx.moveTo(x, METER_BAR_Y);
+            ctx.lineTo(x, METER_BAR_Y + METER_BAR_HEIGHT);
+            ctx.stroke();
+        }
+        ctx.strokeRect(this.x, METER_BAR_Y, HEALTH_BAR_WIDTH, METER_BAR_HEIGHT);
+
+        // Spendable bars, on the side facing the screen center
+        ctx.fillStyle = '#ffffff';
+        ctx.font = 'bold 11px Arial';
+        ctx.textAlign = this.playerId === 'Player1' ? 'left' : 'right';
+        ctx.fillText(
+            `SUPER ${fullBars}`,
+            this.playerId === 'Player1' ? this.x + HEALTH_BAR_WIDTH + 8 : this.x - 8,
+            METER_BAR_Y + METER_BAR_HEIGHT - 1
+        );
         ctx.restore();
     }
 
+    /**
+     * Round-win pips under the bar, on the side facing the screen center
+     */
+    private renderRoundPips(ctx: CanvasRenderingContext2D): void {
+        if (this.roundsToWin <= 1) return;
+
+        const radius = 6;
+        const spacing = 18;
+        const y = this.y + HEALTH_BAR_HEIGHT + 13;
+
+        for (let index = 0; index < this.roundsToWin; index++) {
+            const x = this.playerId === 'Player1'
+                ? this.x + HEALTH_BAR_WIDTH - radius - index * spacing
+                : this.x + radius + index * spacing;
+
+            ctx.beginPath();
+            ctx.arc(x, y, radius, 0, Math.PI * 2);
+            ctx.fillStyle = index < this.roundWins ? '#facc15' : 'rgba(0, 0, 0, 0.6)';
+            ctx.fill();
+            ctx.strokeStyle = '#ffffff';
+            ctx.lineWidth = 1.5;
+            ctx.stroke();
+        }
+    }
+
     /**
      * Reset health bar to full
      */
@@ -190,5 +294,6 @@ export class HealthBar implements IObserver<HealthChangeEvent> {
         this.currentHealth = this.maxHealth;
         this.displayHealth = this.maxHealth;
         this.damageFlashAlpha = 0;
+        this.meter = 0;
     }
 }
@@ -0,0 +1,121 @@
+/**
+ * Hitbox Overlay
+ * Debug layer drawing what the collision code sees: hurtboxes, attack and
+ * projectile hitboxes, their contact points, velocities, stage terrain and the
+ * grounded flag.
+ * Boxes are drawn at the last simulation step (not interpolated like sprites).
+ */
+
+import type { Character } from '../entities/Character';
+import type { Projectile } from '../entities/Projectile';
+import { CollisionSystem } from '../systems/CollisionSystem';
+import type { Rectangle, Vector2 } from '../types';
+
+const HURTBOX_COLOR = '#22d3ee';
+const HITBOX_COLOR = '#f43f5e';
+const PROJECTILE_COLOR = '#fb923c';
+const CONTACT_COLOR = '#fde047';
+const VELOCITY_COLOR = '#a3e635';
+const TERRAIN_COLOR = '#a78bfa';
+const VELOCITY_ARROW_SECONDS = 0.15; // Arrow shows where the velocity carries the character in this time
+
+export class HitboxOverlay {
+    render(ctx: CanvasRenderingContext2D, characters: readonly Character[], projectiles: readonly Projectile[]): void {
+        ctx.save();
+        ctx.lineWidth = 2;
+
+        // Ground line the grounded flag is measured against
+        const stage = characters[0]?.getStage();
+        if (stage) {
+            ctx.strokeStyle = 'rgba(163, 230, 53, 0.4)';
+            ctx.setLineDash([6, 6]);
+            this.line(ctx, { x: 0, y: stage.groundY }, { x: stage.width, y: stage.groundY });
+            ctx.setLineDash([]);
+            stage.surfaces.forEach(surface => this.box(ctx, surface, TERRAIN_COLOR, 0.15));
+        }
+
+        characters.forEach(character => {
+            const opponent = characters.find(other => other !== character);
+            this.renderCharacter(ctx, character, opponent);
+        });
+
+        projectiles.forEach(projectile => {
+            const rect = projectile.hitbox.getRect();
+            this.box(ctx, rect, PROJECTILE_COLOR, 0.2);
+
+            const target = characters.find(character => character.playerId !== projectile.ownerId);
+            if (target) {
+                this.contactPoint(ctx, CollisionSystem.getCollisionPoint(rect, target.getHurtbox()));
+            }
+        });
+
+        ctx.restore();
+    }
+
+    private renderCharacter(ctx: CanvasRenderingContext2D, character: Character, opponent: Character | undefined): void {
+        const hurtbox = character.getHurtbox();
+        this.box(ctx, hurtbox, HURTBOX_COLOR, 0.12);
+
+        // Attack or special move hitbox, marking where it meets the opponent
+        const hitbox = character.getAttackHitbox();
+        if (hitbox?.active) {
+            const rect = hitbox.getRect();
+            this.box(ctx, rect, HITBOX_COLOR, 0.25);
+            if (opponent) {
+                this.contactPoint(ctx, CollisionSystem.getCollisionPoint(rect, opponent.getHurtbox()));
+            }
+        }
+
+        // Velocity vector from the body center
+        const center = { x: hurtbox.x + hurtbox.width / 2, y: hurtbox.y + hurtbox.height / 2 };
+        const tip = {
+            x: center.x + character.velocity.x * VELOCITY_ARROW_SECONDS,
+            y: center.y + character.velocity.y * VELOCITY_ARROW_SECONDS,
+        };
+        ctx.strokeStyle = VELOCITY_COLOR;
+        this.line(ctx, center, tip);
+        ctx.fillStyle = VELOCITY_COLOR;
+        ctx.beginPath();
+        ctx.arc(tip.x, tip.y, 3, 0, Math.PI * 2);
+        ctx.fill();
+
+        // Label: grounded flag, velocity and state
+        ctx.fillStyle = '#f8fafc';
+        ctx.font = '11px monospace';
+        ctx.textAlign = 'center';
+        ctx.fillText(
+            `${character.isGrounded ? 'grounded' : 'airborne'} | ${character.getStateName()}`,
+            center.x,
+            hurtbox.y + hurtbox.height + 16
+        );
+        ctx.fillText(
+            `v ${Math.round(character.velocity.x)}, ${Math.round(character.velocity.y)}`,
+            center.x,
+            hurtbox.y + hurtbox.height + 30
+        );
+    }
+
+    private box(ctx: CanvasRenderingContext2D, rect: Rectangle, color: string, fillOpacity: number): void {
+        ctx.globalAlpha = fillOpacity;
+        ctx.fillStyle = color;
+        ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+        ctx.globalAlpha = 1;
+        ctx.strokeStyle = color;
+        ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+    }
+
+    private contactPoint(ctx: CanvasRenderingContext2D, point: Vector2 | null): void {
+        if (!point) return;
+
+        ctx.strokeStyle = CONTACT_COLOR;
+        this.line(ctx, { x: point.x - 6, y: point.y - 6 }, { x: point.x + 6, y: point.y + 6 });
+        this.line(ctx, { x: point.x - 6, y: point.y + 6 }, { x: point.x + 6, y: point.y - 6 });
+    }
+
+    private line(ctx: CanvasRenderingContext2D, from: Vector2, to: Vector2): void {
+        ctx.beginPath();
+        ctx.moveTo(from.x, from.y);
+        ctx.lineTo(to.x, to.y);
+        ctx.stroke();
+    }
+}
@@ -0,0 +1,227 @@
+/**
+ * Pause Menu
+ * DOM overlay shown over a paused match, navigable by keyboard, mouse and gamepad
+ */
+
+import { getGamepad, isAnyButtonPressed } from '../systems/GamepadInput';
+import { GAMEPAD_MENU_BUTTONS, GAMEPAD_SLOTS, GLOBAL_SHORTCUT_KEYS } from '../constants/GameConfig';
+
+type MenuButton = keyof typeof GAMEPAD_MENU_BUTTONS;
+
+export interface PauseMenuActions {
+    onResume: () => void;
+    onRestartRound: () => void;
+    onControls: () => void;
+    onQuit: () => void;
+}
+
+/**
+ * Option listed on the Settings page; selecting it moves to its next value
+ */
+export interface PauseMenuSetting {
+    label: string;
+    getValue: () => string;
+    change: () => void;
+    /** Hidden when this returns false (e.g. training options outside training mode) */
+    isAvailable?: () => boolean;
+}
+
+interface MenuItem {
+    label: string;
+    select: () => void;
+}
+
+export class PauseMenu {
+    private page: 'main' | 'settings' = 'main';
+    private selectedIndex = 0;
+    private gamepadFrameId: number | null = null;
+    private heldPadButtons: Set<MenuButton> = new Set();
+
+    constructor(
+        private readonly actions: PauseMenuActions,
+        private readonly settings: readonly PauseMenuSetting[]
+    ) {
+        this.handleKeyDown = this.handleKeyDown.bind(this);
+        this.pollGamepads = this.pollGamepads.bind(this);
+    }
+
+    /**
+     * Show the menu on its main page
+     */
+    open(): void {
+        if (this.isOpen()) return;
+
+        this.page = 'main';
+        this.selectedIndex = 0;
+        this.render();
+
+        document.getElementById('pauseOverlay')?.classList.remove('hidden');
+        // Capture phase: menu keys must not reach gameplay input or global shortcuts
+        window.addEventListener('keydown', this.handleKeyDown, true);
+
+        // Buttons held while opening (e.g. Start) only count once released
+        this.heldPadButtons = this.readPadButtons();
+        this.gamepadFrameId = requestAnimationFrame(this.pollGamepads);
+    }
+
+    close(): void {
+        if (!this.isOpen()) return;
+
+        document.getElementById('pauseOverlay')?.classList.add('hidden');
+        window.removeEventListener('keydown', this.handleKeyDown, true);
+
+        if (this.gamepadFrameId !== null) {
+            cancelAnimationFrame(this.gamepadFrameId);
+            this.gamepadFrameId = null;
+        }
+    }
+
+    isOpen(): boolean {
+        return !document.getElementById('pauseOverlay')?.classList.contains('hidden');
+    }
+
+    private getItems(): MenuItem[] {
+        if (this.page === 'settings') {
+            return [
+                ...this.settings
+                    .filter(setting => setting.isAvailable?.() ?? true)
+                    .map(setting => ({
+                        label: `${setting.label}: ${setting.getValue()}`,
+                        select: () => {
+                            setting.change();
+                            this.render();
+                        },
+                    })),
+                { label: 'Back', select: () => this.showPage('main') },
+            ];
+        }
+
+        return [
+            { label: 'Resume', select: this.actions.onResume },
+            { label: 'Restart Round', select: this.actions.onRestartRound },
+            { label: 'Controls', select: this.actions.onControls },
+            { label: 'Settings', select: () => this.showPage('settings') },
+            { label: 'Quit to Setup', select: this.actions.onQuit },
+        ];
+    }
+
+    private showPage(page: 'main' | 'settings'): void {
+        this.page = page;
+        this.selectedIndex = 0;
+        this.render();
+    }
+
+    private moveSelection(direction: 1 | -1): void {
+        const count = this.getItems().length;
+        this.selectedIndex = (this.selectedIndex + direction + count) % count;
+        this.render();
+    }
+
+    private activateSelection(): void {
+        this.getItems()[this.selectedIndex]?.select();
+    }
+
+    /**
+     * Back out of Settings, or resume from the main page
+     */
+    private goBack(): void {
+        if (this.page === 'settings') {
+            this.showPage('main');
+            return;
+        }
+        this.actions.onResume();
+    }
+
+    private handleKeyDown(event: KeyboardEvent): void {
+        event.preventDefault();
+        event.stopImmediatePropagation();
+
+        switch (event.code) {
+            case 'ArrowUp':
+            case 'KeyW':
+                this.moveSelection(-1);
+                break;
+            case 'ArrowDown':
+            case 'KeyS':
+                this.moveSelection(1);
+                break;
+            case 'Enter':
+            case 'Space':
+                this.activateSelection();
+                break;
+            case 'Escape':
+                this.goBack();
+                break;
+            case GLOBAL_SHORTCUT_KEYS.pause:
+                this.actions.onResume();
+                break;
+        }
+    }
+
+    /**
+     * Gamepads have no button events, so poll every animation frame while open
+     */
+    private pollGamepads(): void {
+        const pressed = this.readPadButtons();
+        const justPressed = (button: MenuButton): boolean =>
+            pressed.has(button) && !this.heldPadButtons.has(button);
+
+        this.heldPadButtons = pressed;
+        this.gamepadFrameId = requestAnimationFrame(this.pollGamepads);
+
+        if (justPressed('up')) this.moveSelection(-1);
+        if (justPressed('down')) this.moveSelection(1);
+        if (justPressed('confirm')) this.activateSelection();
+        if (justPressed('back')) this.goBack();
+        if (justPressed('pause')) this.actions.onResume();
+    }
+
+    /**
+     * Menu buttons held on any connected pad
+     */
+    private readPadButtons(): Set<MenuButton> {
+        const pressed = new Set<MenuButton>();
+
+        GAMEPAD_SLOTS.forEach(slot => {
+            const pad = getGamepad(slot);
+            if (!pad) return;
+
+            (Object.keys(GAMEPAD_MENU_BUTTONS) as MenuButton[]).forEach(button => {
+                if (isAnyButtonPressed(pad, GAMEPAD_MENU_BUTTONS[button])) {
+                    pressed.add(button);
+                }
+            });
+        });
+
+        return pressed;
+    }
+
+    private render(): void {
+        const list = document.getElementById('pauseMenuList');
+        const title = document.getElementById('pauseMenuTitle');
+        if (!list) return;
+
+        if (title) {
+            title.textContent = this.page === 'settings' ? 'Settings' : 'Paused';
+        }
+
+        list.innerHTML = '';
+        this.getItems().forEach((item, index) => {
+            const entry = document.createElement('li');
+            const button = document.createElement('button');
+            button.type = 'button';
+            button.className = 'secondary-button pause-menu-item';
+            button.classList.toggle('selected', index === this.selectedIndex);
+            button.textContent = item.label;
+            button.addEventListener('mouseenter', () => {
+                if (this.selectedIndex === index) return;
+                this.selectedIndex = index;
+                this.render();
+            });
+            button.addEventListener('click', () => item.select());
+
+            entry.appendChild(button);
+            list.appendChild(entry);
+        });
+    }
+}
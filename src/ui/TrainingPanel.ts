@@ -0,0 +1,96 @@
+/**
+ * Training Panel
+ * On-canvas readout of training settings and frame data for the last hit
+ */
+
+import type { FrameDataReport, PlayerId, TrainingOptions } from '../types';
+import { DUMMY_BEHAVIORS, TARGET_FPS } from '../constants/GameConfig';
+
+export interface TrainingPanelData {
+    options: TrainingOptions;
+    report: FrameDataReport | null;
+    isRecording: boolean;
+    recordingFrames: number;
+    absorbedDamageBonus: Record<PlayerId, number>;
+    playerNames: Record<PlayerId, string>;
+}
+
+const PANEL_X = 20;
+const PANEL_Y = 130;
+const PANEL_WIDTH = 340;
+const LINE_HEIGHT = 18;
+
+export class TrainingPanel {
+    render(ctx: CanvasRenderingContext2D, data: TrainingPanelData): void {
+        const lines = this.describe(data);
+
+        ctx.save();
+        ctx.fillStyle = 'rgba(2, 6, 23, 0.7)';
+        ctx.fillRect(PANEL_X, PANEL_Y, PANEL_WIDTH, lines.length * LINE_HEIGHT + 34);
+
+        ctx.fillStyle = '#facc15';
+        ctx.font = 'bold 13px Arial';
+        ctx.textAlign = 'left';
+        ctx.fillText('TRAINING', PANEL_X + 10, PANEL_Y + 20);
+
+        if (data.isRecording) {
+            ctx.fillStyle = '#f87171';
+            ctx.fillText(
+                `● REC ${(data.recordingFrames / TARGET_FPS).toFixed(1)}s`,
+                PANEL_X + PANEL_WIDTH - 90,
+                PANEL_Y + 20
+            );
+        }
+
+        ctx.fillStyle = '#e2e8f0';
+        ctx.font = '12px monospace';
+        lines.forEach((line, index) => {
+            ctx.fillText(line, PANEL_X + 10, PANEL_Y + 40 + index * LINE_HEIGHT);
+        });
+        ctx.restore();
+    }
+
+    private describe(data: TrainingPanelData): string[] {
+        const { options, report } = data;
+        const behavior = DUMMY_BEHAVIORS.find(entry => entry.value === options.dummyBehavior)?.label
+            ?? options.dummyBehavior;
+        const onOff = (value: boolean): string => (value ? 'On' : 'Off');
+
+        const lines = [
+            `Dummy: ${behavior}` +
+            (options.dummyBehavior === 'playback' ? ` (${(data.recordingFrames / TARGET_FPS).toFixed(1)}s)` : ''),
+            `Infinite health: ${onOff(options.infiniteHealth)} | Instant cooldowns: ${onOff(options.instantCooldowns)}`,
+        ];
+
+        if (report) {
+            const attacker = data.playerNames[report.attackerId];
+            lines.push(
+                `Last hit: ${attacker}, ${this.formatNumber(report.damage)} dmg${report.blocked ? ' (blocked)' : ''}`,
+                `${report.blocked ? 'Blockstun' : 'Hitstun'}: ${this.formatFrames(report.stunFrames)}`,
+                `Frame advantage: ${this.formatAdvantage(report.frameAdvantage)}`
+            );
+        } else {
+            lines.push('Last hit: -');
+        }
+
+        lines.push(
+            `Absorbed bonus: ${this.formatNumber(data.absorbedDamageBonus.Player1)} / ` +
+            `${this.formatNumber(data.absorbedDamageBonus.Player2)}`,
+            'T: record dummy | P: settings'
+        );
+        return lines;
+    }
+
+    private formatNumber(value: number): string {
+        return Number.isInteger(value) ? String(value) : value.toFixed(1);
+    }
+
+    private formatFrames(frames: number | null): string {
+        return frames === null ? '...' : `${frames}f`;
+    }
+
+    private formatAdvantage(frames: number | null): string {
+        if (frames === null) return '...';
+        return frames > 0 ? `+${frames}f` : `${frames}f`;
+    }
+}
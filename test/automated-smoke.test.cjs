@@ -20,24 +20,81 @@ require.extensions['.ts'] = function registerTypeScript(module, filename) {
 
 const { CharacterFactory } = require('../src/patterns/factory/CharacterFactory.ts');
 const { CollisionSystem } = require('../src/systems/CollisionSystem.ts');
-const { MoveCommand, AttackCommand, SwitchModeCommand } = require('../src/patterns/command/Command.ts');
+const { FixedTimestep } = require('../src/core/FixedTimestep.ts');
+const { GameSimulation } = require('../src/core/GameSimulation.ts');
+const { MatchSimulator } = require('../src/core/MatchSimulator.ts');
+const { MatchScore } = require('../src/core/MatchScore.ts');
+const { ReplayRecorder, ReplayPlayer } = require('../src/systems/ReplaySystem.ts');
+const { readGamepadState } = require('../src/systems/GamepadInput.ts');
+const { KeyBindingStore } = require('../src/systems/KeyBindingStore.ts');
+const { InputBuffer } = require('../src/systems/InputBuffer.ts');
+const { getElementalMatchup } = require('../src/systems/ElementalAdvantage.ts');
+const { TrainingDummy } = require('../src/systems/TrainingDummy.ts');
+const { FrameDataTracker } = require('../src/systems/FrameDataTracker.ts');
+const { HitboxOverlay } = require('../src/ui/HitboxOverlay.ts');
+const { Camera } = require('../src/systems/Camera.ts');
 const {
+    MoveCommand,
+    AttackCommand,
+    BlockCommand,
+    ThrowCommand,
+    SwitchModeCommand
+} = require('../src/patterns/command/Command.ts');
+const {
+    AERIAL_ATTACKS,
     BASE_ATTACK_DAMAGE,
+    CANVAS_WIDTH,
+    DASH_PROFILES,
     LIGHT_MODE,
     PLAYER1_START,
-    PLAYER2_START
+    PLAYER2_START,
+    STAGE_WIDTH,
+    STAGES,
+    START_OFFSET_FROM_CENTER,
+    SUPER_FREEZE_FRAMES,
+    THROW_DAMAGE,
+    THROW_STARTUP_FRAMES,
+    THROW_TECH_WINDOW_FRAMES,
+    WIND_AIR_DASH_ATTACK
 } = require('../src/constants/GameConfig.ts');
 
 const runtime = {
     CharacterFactory,
     CollisionSystem,
+    FixedTimestep,
+    GameSimulation,
+    MatchSimulator,
+    MatchScore,
+    ReplayRecorder,
+    ReplayPlayer,
+    readGamepadState,
+    KeyBindingStore,
+    InputBuffer,
+    getElementalMatchup,
+    TrainingDummy,
+    FrameDataTracker,
+    HitboxOverlay,
+    Camera,
     MoveCommand,
     AttackCommand,
+    BlockCommand,
+    ThrowCommand,
     SwitchModeCommand,
+    AERIAL_ATTACKS,
     BASE_ATTACK_DAMAGE,
+    CANVAS_WIDTH,
+    DASH_PROFILES,
     LIGHT_MODE,
     PLAYER1_START,
     PLAYER2_START,
+    STAGE_WIDTH,
+    STAGES,
+    START_OFFSET_FROM_CENTER,
+    SUPER_FREEZE_FRAMES,
+    THROW_DAMAGE,
+    THROW_STARTUP_FRAMES,
+    THROW_TECH_WINDOW_FRAMES,
+    WIND_AIR_DASH_ATTACK,
 };
 const tests = [];
 
@@ -139,6 +196,47 @@ test('Dark mode absorbed damage is consumed as bonus by next Light attack', () =
     assert.equal(secondAttack.damage, baseLightDamage);
 });
 
+test('Blocking a frontal attack deals chip damage and blockstun instead of hitstun', () => {
+    const [player1, player2] = runtime.CharacterFactory.createMatchPlayers('Fighter', 'Fighter');
+
+    player1.position.x = 300;
+    player2.position.x = 370;
+
+    new runtime.BlockCommand(true).execute(player2);
+    player2.update(0.016);
+    assert.equal(player2.getStateName(), 'block');
+    assert.equal(player2.facingRight, false);
+
+    const initialHealth = player2.health;
+    new runtime.AttackCommand(true).execute(player1);
+    player1.update(0.016);
+    player1.update(0.016);
+
+    const chipDamage = initialHealth - player2.health;
+    assert.ok(chipDamage > 0);
+    assert.ok(chipDamage < runtime.BASE_ATTACK_DAMAGE);
+    assert.equal(player2.getStateName(), 'block');
+    assert.equal(player2.isHitStunned, false);
+});
+
+test('Guard does not stop attacks from behind', () => {
+    const [player1, player2] = runtime.CharacterFactory.createMatchPlayers('Fighter', 'Fighter');
+
+    new runtime.BlockCommand(true).execute(player2);
+    player2.update(0.016);
+    player2.facingRight = true;
+
+    const outcome = player2.takeDamage({
+        damage: 10,
+        knockback: { x: 200, y: 0 },
+        hitStun: 200,
+        particleType: 'fire',
+    });
+
+    assert.equal(outcome, 'hit');
+    assert.equal(player2.getStateName(), 'hit');
+});
+
 test('CollisionSystem detects overlap and computes overlap midpoint', () => {
     const overlapPoint = runtime.CollisionSystem.getCollisionPoint(
         { x: 0, y: 0, width: 10, height: 10 },
@@ -168,6 +266,1187 @@ test('CollisionSystem resolveCharacterCollision increases distance between overl
     assert.ok(distanceAfter > distanceBefore);
 });
 
+test('FixedTimestep converts frame time into whole steps and keeps the remainder', () => {
+    const timestep = new runtime.FixedTimestep(10, 5);
+
+    assert.equal(timestep.advance(25), 2);
+    assert.ok(Math.abs(timestep.getAlpha() - 0.5) < 1e-9);
+    assert.equal(timestep.advance(5), 1);
+    assert.ok(timestep.getAlpha() < 1e-9);
+
+    // Long frames are clamped and capped instead of spiralling
+    assert.equal(timestep.advance(10000), 5);
+    assert.ok(timestep.getAlpha() < 1);
+});
+
+test('GameSimulation produces identical matches for identical inputs', () => {
+    function playScriptedMatch() {
+        const simulation = new runtime.GameSimulation({ Player1: 'Fighter', Player2: 'Geomancer' });
+        const moveRight = new runtime.MoveCommand('right', true);
+        const stopRight = new runtime.MoveCommand('right', false);
+        const jump = new runtime.MoveCommand('up', true);
+        const land = new runtime.MoveCommand('up', false);
+
+        for (let frame = 0; frame < 240; frame++) {
+            if (frame === 0) moveRight.execute(simulation.player1);
+            if (frame === 50) stopRight.execute(simulation.player1);
+            if (frame === 30) jump.execute(simulation.player2);
+            if (frame === 40) land.execute(simulation.player2);
+            new runtime.AttackCommand(frame % 20 < 10).execute(simulation.player1);
+            simulation.step();
+        }
+
+        return {
+            frame: simulation.getFrame(),
+            p1: { ...simulation.player1.position, health: simulation.player1.health },
+            p2: { ...simulation.player2.position, health: simulation.player2.health },
+        };
+    }
+
+    const first = playScriptedMatch();
+    const second = playScriptedMatch();
+    assert.equal(first.frame, 240);
+    assert.deepEqual(first, second);
+});
+
+test('MatchSimulator plays a whole scripted match to a knockout', () => {
+    const simulator = new runtime.MatchSimulator({
+        selection: { Player1: 'Fighter', Player2: 'Geomancer' },
+        inputs: {
+            // Walk in, then keep tapping attack once in range
+            Player1: (frame, self, opponent) => {
+                const distance = opponent.position.x - (self.position.x + self.width);
+                if (distance > 40) {
+                    return { right: true };
+                }
+                return { attack: frame % 4 === 0 };
+            },
+        },
+    });
+
+    const result = simulator.run();
+
+    assert.equal(result.winner, 'Player1');
+    assert.equal(result.finalHealth.Player2, 0);
+    assert.equal(result.finalHealth.Player1, 100);
+    assert.ok(result.frames > 0);
+    assert.ok(result.events.some(event => event.type === 'damage' && event.playerId === 'Player2'));
+    assert.deepEqual(
+        result.events[result.events.length - 1],
+        { frame: result.frames, type: 'knockout', playerId: 'Player2' }
+    );
+});
+
+test('MatchSimulator stops at the frame limit without a winner', () => {
+    const result = new runtime.MatchSimulator({
+        inputs: {
+            Player1: [{ switchMode: true }, {}, { switchMode: true }],
+        },
+        maxFrames: 120,
+    }).run();
+
+    assert.equal(result.winner, null);
+    assert.equal(result.frames, 120);
+    assert.deepEqual(
+        result.events.map(event => [event.frame, event.type, event.mode]),
+        [[0, 'modeChange', 'Water'], [2, 'modeChange', 'Fire']]
+    );
+});
+
+test('Best-of-three resets between rounds and time-outs go to the healthier player', () => {
+    const walkInAndAttack = (frame, self, opponent) => {
+        const distance = opponent.position.x - (self.position.x + self.width);
+        if (distance > 40) {
+            return { right: true };
+        }
+        return { attack: frame % 4 === 0 };
+    };
+
+    const bestOfThree = new runtime.MatchSimulator({
+        selection: { Player1: 'Fighter', Player2: 'Geomancer' },
+        inputs: { Player1: walkInAndAttack },
+        rules: { bestOf: 3, roundTimeLimit: null },
+    }).run();
+
+    assert.equal(bestOfThree.winner, 'Player1');
+    assert.deepEqual(
+        bestOfThree.rounds.map(round => [round.round, round.winner, round.reason]),
+        [[1, 'Player1', 'knockout'], [2, 'Player1', 'knockout']]
+    );
+    assert.equal(bestOfThree.events.filter(event => event.type === 'knockout').length, 2);
+
+    // Land a single hit, then let the clock run out
+    const timeOut = new runtime.MatchSimulator({
+        inputs: {
+            Player1: (frame, self, opponent) =>
+                opponent.health < opponent.maxHealth ? {} : walkInAndAttack(frame, self, opponent),
+        },
+        rules: { bestOf: 1, roundTimeLimit: 3 },
+    }).run();
+
+    assert.equal(timeOut.winner, 'Player1');
+    assert.deepEqual(timeOut.rounds, [{ round: 1, winner: 'Player1', reason: 'timeout' }]);
+    assert.equal(timeOut.frames, 180);
+
+    // Equal health at the bell draws the round, which both players are credited with
+    const draw = new runtime.MatchSimulator({
+        rules: { bestOf: 1, roundTimeLimit: 1 },
+    }).run();
+
+    assert.equal(draw.winner, 'Draw');
+    assert.deepEqual(draw.rounds, [{ round: 1, winner: null, reason: 'timeout' }]);
+    assert.equal(draw.frames, 60);
+});
+
+test('Simultaneous knockouts are a double K.O. draw instead of a win for Player 2', () => {
+    const simulation = new runtime.GameSimulation({ Player1: 'Fighter', Player2: 'Eclipse' }, 3);
+    simulation.player1.health = 0;
+    simulation.player2.health = 0;
+
+    assert.equal(simulation.getKnockoutOutcome(), 'Draw');
+    const doubleKnockout = simulation.getRoundResult(3, 99);
+    assert.deepEqual(doubleKnockout, { round: 3, winner: null, reason: 'doubleKnockout' });
+
+    // 1-1 in a best of three, then a double K.O.: both reach two wins together
+    const score = new runtime.MatchScore({ bestOf: 3, roundTimeLimit: 99 });
+    score.recordRound({ round: 1, winner: 'Player1', reason: 'knockout' });
+    score.recordRound({ round: 2, winner: 'Player2', reason: 'timeout' });
+    assert.equal(score.isFinalRound(), true);
+    assert.equal(score.getMatchOutcome(), null);
+
+    score.recordRound(doubleKnockout);
+    assert.deepEqual(score.getWins(), { Player1: 2, Player2: 2 });
+    assert.equal(score.getMatchOutcome(), 'Draw');
+
+    // A draw at 1-0 still hands the leader the match
+    const leaderScore = new runtime.MatchScore({ bestOf: 3, roundTimeLimit: 99 });
+    leaderScore.recordRound({ round: 1, winner: 'Player1', reason: 'knockout' });
+    leaderScore.recordRound(doubleKnockout);
+    assert.equal(leaderScore.getMatchOutcome(), 'Player1');
+});
+
+test('Input held across a round boundary keeps driving the character in the next round', () => {
+    // Two one-second rounds with right held the whole time
+    const positions = [];
+    const result = new runtime.MatchSimulator({
+        inputs: {
+            Player1: (frame, self) => {
+                positions[frame] = self.position.x;
+                return { right: true };
+            },
+        },
+        rules: { bestOf: 3, roundTimeLimit: 1 },
+        maxFrames: 120,
+    }).run();
+
+    assert.deepEqual(result.rounds.map(round => round.reason), ['timeout', 'timeout']);
+    assert.equal(positions[60], runtime.PLAYER1_START.x);
+    assert.ok(positions[119] > runtime.PLAYER1_START.x + 50, `round 2 ended at x=${positions[119]}`);
+    assert.ok(positions[59] > runtime.PLAYER1_START.x + 50);
+});
+
+test('Recorded replay plays back to the same match result', () => {
+    const selection = { Player1: 'Fighter', Player2: 'Geomancer' };
+    const simulation = new runtime.GameSimulation(selection, 1234);
+    const recorder = new runtime.ReplayRecorder({
+        seed: 1234,
+        selection,
+        playerDisplayNames: { Player1: 'Left', Player2: 'Right' },
+    });
+
+    for (let frame = 0; frame < 300; frame++) {
+        const player1 = simulation.player1;
+        const distance = simulation.player2.position.x - (player1.position.x + player1.width);
+        new runtime.MoveCommand('right', distance > 40).execute(player1);
+        new runtime.AttackCommand(distance <= 40 && frame % 6 < 3).execute(player1);
+
+        if (frame === 30) {
+            const switchMode = new runtime.SwitchModeCommand();
+            switchMode.execute(simulation.player2);
+            recorder.recordCommand('Player2', switchMode);
+        }
+
+        recorder.recordFrame(player1, simulation.player2);
+        simulation.step();
+    }
+
+    const replay = runtime.ReplayPlayer.parse(JSON.stringify(recorder.toReplay()));
+    const result = new runtime.MatchSimulator({ replay, maxFrames: replay.frameCount }).run();
+
+    assert.equal(replay.frameCount, 300);
+    assert.ok(simulation.player2.health < 100);
+    assert.equal(result.finalHealth.Player1, simulation.player1.health);
+    assert.equal(result.finalHealth.Player2, simulation.player2.health);
+    assert.ok(result.events.some(event => event.type === 'modeChange' && event.frame === 30));
+    assert.throws(
+        () => runtime.ReplayPlayer.parse(JSON.stringify({ ...replay, version: 99 })),
+        /Unsupported replay version/
+    );
+
+    // Corrupt files are rejected up front instead of crashing or hanging playback
+    const track = replay.inputs.Player1;
+    const corrupted = [
+        { selection: null },
+        { playerDisplayNames: { Player1: 'Left', Player2: 7 } },
+        { frameCount: 299 },
+        { frameCount: 1e12, inputs: { Player1: { ...track, runs: [[0, 1e12]] }, Player2: { ...track, runs: [[0, 1e12]] } } },
+        { inputs: { ...replay.inputs, Player1: { ...track, runs: [...track.runs, 5] } } },
+        { inputs: { ...replay.inputs, Player1: { ...track, runs: [[0, -1], [0, 301]] } } },
+        { inputs: { ...replay.inputs, Player1: { ...track, switchModeFrames: [null] } } },
+        { rules: { bestOf: 2, roundTimeLimit: null } },
+        { rules: { bestOf: 0, roundTimeLimit: null } },
+        { rules: { bestOf: 3 } },
+        { rules: { bestOf: 3, roundTimeLimit: '99' } },
+        { roundRestarts: [-1] },
+        { roundRestarts: [1.5] },
+        { roundRestarts: ['150'] },
+    ];
+    corrupted.forEach(fields => {
+        assert.throws(
+            () => runtime.ReplayPlayer.parse(JSON.stringify({ ...replay, ...fields })),
+            /missing required fields/
+        );
+    });
+});
+
+
+test('Round restarts from the pause menu are recorded and replayed at the same frame', () => {
+    const selection = { Player1: 'Fighter', Player2: 'Geomancer' };
+    const simulation = new runtime.GameSimulation(selection, 99);
+    const recorder = new runtime.ReplayRecorder({
+        seed: 99,
+        selection,
+        playerDisplayNames: { Player1: 'Left', Player2: 'Right' },
+        rules: { bestOf: 1, roundTimeLimit: null },
+    });
+
+    for (let frame = 0; frame < 360; frame++) {
+        if (frame === 150) {
+            recorder.recordRoundRestart();
+            simulation.resetRound();
+        }
+
+        // Walking right is still held across the restart
+        const player1 = simulation.player1;
+        const distance = simulation.player2.position.x - (player1.position.x + player1.width);
+        new runtime.MoveCommand('right', distance > 40).execute(player1);
+        new runtime.AttackCommand(distance <= 40 && frame % 6 < 3).execute(player1);
+
+        recorder.recordFrame(player1, simulation.player2);
+        simulation.step();
+    }
+
+    const replay = runtime.ReplayPlayer.parse(JSON.stringify(recorder.toReplay()));
+    const result = new runtime.MatchSimulator({ replay, maxFrames: replay.frameCount }).run();
+
+    assert.deepEqual(replay.roundRestarts, [150]);
+    assert.ok(simulation.player2.health < 100);
+    assert.deepEqual(result.finalHealth, {
+        Player1: simulation.player1.health,
+        Player2: simulation.player2.health,
+    });
+});
+
+test('A mode switch pressed between rounds does not leak into the next round of a replay', () => {
+    const selection = { Player1: 'Fighter', Player2: 'Geomancer' };
+    const rules = { bestOf: 3, roundTimeLimit: 1 };
+    const simulation = new runtime.GameSimulation(selection, 5);
+    const recorder = new runtime.ReplayRecorder({
+        seed: 5,
+        selection,
+        playerDisplayNames: { Player1: 'Left', Player2: 'Right' },
+        rules,
+    });
+
+    for (let frame = 0; frame < 90; frame++) {
+        recorder.recordFrame(simulation.player1, simulation.player2);
+        simulation.step();
+        if (!simulation.getRoundResult(1, rules.roundTimeLimit)) continue;
+
+        // Pressed on the result screen: the live character switches, then the round reset undoes it
+        const switchMode = new runtime.SwitchModeCommand();
+        switchMode.execute(simulation.player1);
+        recorder.recordCommand('Player1', switchMode);
+
+        simulation.resetRound();
+        recorder.discardPendingCommands();
+    }
+
+    const replay = runtime.ReplayPlayer.parse(JSON.stringify(recorder.toReplay()));
+    const playback = new runtime.MatchSimulator({ replay, maxFrames: replay.frameCount });
+    const result = playback.run();
+
+    assert.equal(result.rounds.length, 1);
+    assert.deepEqual(replay.inputs.Player1.switchModeFrames, []);
+    assert.equal(simulation.player1.getModeName(), simulation.player1.getAvailableModes()[0].name);
+    assert.equal(playback.getSimulation().player1.getModeName(), simulation.player1.getModeName());
+});
+test('CPU opponents beat an idle player and replay identically for the same seed', () => {
+    const playCpuMatch = () => new runtime.MatchSimulator({
+        selection: { Player1: 'Fighter', Player2: 'Eclipse' },
+        cpu: { Player2: 'Hard' },
+        seed: 7,
+    }).run();
+
+    const first = playCpuMatch();
+    assert.equal(first.winner, 'Player2');
+    assert.deepEqual(playCpuMatch(), first);
+
+    const easyVsHard = new runtime.MatchSimulator({
+        cpu: { Player1: 'Easy', Player2: 'Hard' },
+        seed: 7,
+    }).run();
+    assert.equal(easyVsHard.winner, 'Player2');
+});
+
+test('Gamepad state ignores stick drift inside the deadzone and reads analog buttons', () => {
+    const createPad = (axes, pressedButtons = [], analogButtons = {}) => ({
+        axes,
+        buttons: Array.from({ length: 16 }, (_, index) => ({
+            pressed: pressedButtons.includes(index),
+            value: analogButtons[index] ?? (pressedButtons.includes(index) ? 1 : 0),
+        })),
+    });
+
+    const drifting = runtime.readGamepadState(createPad([0.2, -0.3]));
+    assert.deepEqual(drifting, {
+        up: false,
+        down: false,
+        left: false,
+        right: false,
+        attack: false,
+        switchMode: false,
+        block: false,
+        throw: false,
+    });
+
+    const active = runtime.readGamepadState(createPad([-0.9, 0.1], [0, 12], { 7: 0.8 }));
+    assert.equal(active.left, true);
+    assert.equal(active.right, false);
+    assert.equal(active.up, true);
+    assert.equal(active.attack, true);
+    assert.equal(active.block, true);
+    assert.equal(active.switchMode, false);
+});
+
+test('KeyBindingStore persists rebinds and reports conflicts with players and shortcuts', () => {
+    const storage = new Map();
+    const store = new runtime.KeyBindingStore({
+        getItem: key => storage.get(key) ?? null,
+        setItem: (key, value) => storage.set(key, value),
+        removeItem: key => storage.delete(key),
+    });
+
+    const bindings = store.load();
+    assert.deepEqual(runtime.KeyBindingStore.findConflicts(bindings), []);
+
+    bindings.Player1.attack = 'KeyK';
+    bindings.Player2.block = 'KeyP';
+    const conflicts = runtime.KeyBindingStore.findConflicts(bindings);
+    assert.deepEqual(
+        conflicts.map(conflict => [conflict.playerId, conflict.action, conflict.conflictsWith]),
+        [
+            ['Player1', 'attack', 'Player 2 Attack'],
+            ['Player2', 'attack', 'Player 1 Attack'],
+            ['Player2', 'block', 'Pause shortcut'],
+        ]
+    );
+
+    bindings.Player1.attack = 'KeyE';
+    bindings.Player2.block = 'KeyU';
+    store.save(bindings);
+    assert.equal(store.load().Player1.attack, 'KeyE');
+
+    const [player1] = runtime.CharacterFactory.createMatchPlayers('Fighter', 'Fighter', store.load());
+    assert.equal(player1.keyBindings.attack, 'KeyE');
+
+    assert.equal(store.reset().Player1.attack, 'KeyF');
+    assert.equal(store.load().Player2.block, 'KeyJ');
+});
+
+test('Attack pressed during hitstun is buffered and fires on recovery', () => {
+    const simulation = new runtime.GameSimulation({ Player1: 'Fighter', Player2: 'Fighter' });
+    const player2 = simulation.player2;
+
+    player2.takeDamage({ damage: 5, knockback: { x: 0, y: 0 }, hitStun: 200, particleType: 'hit' });
+    assert.equal(player2.getStateName(), 'hit');
+    while (simulation.getHitstopFrames() > 0) simulation.step();
+
+    // Tap attack a few frames before the 12-frame hitstun ends
+    for (let frame = 0; frame < 9; frame++) simulation.step();
+    new runtime.AttackCommand(true).execute(player2);
+    simulation.step();
+    new runtime.AttackCommand(false).execute(player2);
+
+    for (let frame = 0; frame < 4 && player2.getStateName() !== 'attack'; frame++) {
+        simulation.step();
+    }
+    assert.equal(player2.getStateName(), 'attack');
+});
+
+test('InputBuffer recognises motions relative to the opponent and within the window', () => {
+    const neutral = { left: false, right: false, up: false, down: false, attack: false, block: false };
+    const quarterCircle = [{ down: true }, { down: true, left: true }, { left: true }, { left: true, attack: true }];
+    const waveMotion = [{ name: 'Wave', motion: [2, 6], button: 'attack' }];
+
+    // Facing left, so pressing left is "forward"
+    const buffer = new runtime.InputBuffer();
+    quarterCircle.forEach(sample => buffer.record({ ...neutral, ...sample }, false));
+    assert.equal(buffer.matchMotion(waveMotion)?.name, 'Wave');
+    buffer.consume('attack');
+    assert.equal(buffer.matchMotion(waveMotion), null);
+
+    // Same inputs with the opponent on the right read as a back motion
+    const mirrored = new runtime.InputBuffer();
+    quarterCircle.forEach(sample => mirrored.record({ ...neutral, ...sample }, true));
+    assert.equal(mirrored.matchMotion(waveMotion), null);
+
+    // Too slow: neutral frames push the down input out of the motion window
+    const slow = new runtime.InputBuffer({ motionWindow: 5 });
+    slow.record({ ...neutral, down: true }, true);
+    for (let frame = 0; frame < 6; frame++) slow.record(neutral, true);
+    slow.record({ ...neutral, right: true, attack: true }, true);
+    assert.equal(slow.matchMotion(waveMotion), null);
+});
+
+test('Special move runs its startup frames before the hitbox can connect', () => {
+    const simulation = new runtime.GameSimulation({ Player1: 'Eclipse', Player2: 'Fighter' });
+    const { player1, player2 } = simulation;
+    player2.position.x = player1.position.x + 300;
+
+    // Down, then forward + attack: Prism Lance in Light mode
+    new runtime.MoveCommand('down', true).execute(player1);
+    simulation.step();
+    new runtime.MoveCommand('down', false).execute(player1);
+    new runtime.MoveCommand('right', true).execute(player1);
+    new runtime.AttackCommand(true).execute(player1);
+    simulation.step();
+    new runtime.MoveCommand('right', false).execute(player1);
+    new runtime.AttackCommand(false).execute(player1);
+    assert.equal(player1.getStateName(), 'special');
+    assert.equal(player1.getActiveSpecialMove()?.name, 'Prism Lance');
+
+    const move = player1.getActiveSpecialMove();
+    for (let frame = 0; frame < move.startupFrames; frame++) simulation.step();
+    assert.equal(player2.health, player2.maxHealth);
+    assert.equal(player1.getAttackHitbox(), null);
+
+    simulation.step();
+    assert.ok(player2.health < player2.maxHealth);
+    assert.equal(player2.getStateName(), 'hit');
+    assert.equal(player1.getHitParticleType(), 'light');
+
+    // Hitstop holds both characters before the move carries on
+    while (simulation.getHitstopFrames() > 0) simulation.step();
+    const totalFrames = move.startupFrames + move.activeFrames + move.recoveryFrames;
+    for (let frame = move.startupFrames + 1; frame < totalFrames; frame++) simulation.step();
+    assert.equal(player1.getStateName(), 'idle');
+    assert.equal(player1.isAttacking, false);
+});
+
+test('Special moves are only recognised in their own mode', () => {
+    const simulation = new runtime.GameSimulation({ Player1: 'Eclipse', Player2: 'Fighter' });
+    const { player1 } = simulation;
+    player1.switchElementalMode();
+    assert.equal(player1.getModeName(), 'Dark');
+
+    new runtime.MoveCommand('down', true).execute(player1);
+    simulation.step();
+    new runtime.MoveCommand('down', false).execute(player1);
+    new runtime.MoveCommand('right', true).execute(player1);
+    new runtime.AttackCommand(true).execute(player1);
+    simulation.step();
+
+    // Prism Lance belongs to Light, so this is a normal attack
+    assert.equal(player1.getStateName(), 'attack');
+    assert.ok(runtime.CharacterFactory.getCharacterRoster()[2].specialMoves
+        .includes('Prism Lance (Light): ↓ → + Attack'));
+});
+
+test('Light attacks fire projectiles that hit at range, and opposing projectiles clash', () => {
+    const simulation = new runtime.GameSimulation({ Player1: 'Eclipse', Player2: 'Eclipse' });
+    const { player1, player2, projectiles } = simulation;
+    const impacts = [];
+    projectiles.attach({ update: event => impacts.push(event.kind) });
+
+    player2.position.x = player1.position.x + 400;
+    new runtime.AttackCommand(true).execute(player1);
+    simulation.step();
+    new runtime.AttackCommand(false).execute(player1);
+    assert.equal(projectiles.getProjectiles().length, 1);
+    assert.equal(player1.getAttackHitbox(), null);
+
+    for (let frame = 0; frame < 60 && player2.health === player2.maxHealth; frame++) simulation.step();
+    assert.ok(player2.health < player2.maxHealth);
+    assert.equal(projectiles.getProjectiles().length, 0);
+    assert.deepEqual(impacts, ['hit']);
+
+    // Both fire at once from full-screen distance: the bolts meet in the middle
+    simulation.reset();
+    new runtime.AttackCommand(true).execute(player1);
+    new runtime.AttackCommand(true).execute(player2);
+    simulation.step();
+    assert.equal(projectiles.getProjectiles().length, 2);
+
+    for (let frame = 0; frame < 60 && projectiles.getProjectiles().length > 0; frame++) simulation.step();
+    assert.equal(projectiles.getProjectiles().length, 0);
+    assert.equal(player1.health, player1.maxHealth);
+    assert.equal(player2.health, player2.maxHealth);
+    assert.deepEqual(impacts, ['hit', 'clash']);
+});
+
+test('Elemental advantages scale hits by the attacker and defender mode pair', () => {
+    assert.equal(runtime.getElementalMatchup('Water', 'Fire'), 'effective');
+    assert.equal(runtime.getElementalMatchup('Fire', 'Water'), 'resisted');
+    assert.equal(runtime.getElementalMatchup('Wind', 'Earth'), 'effective');
+    assert.equal(runtime.getElementalMatchup('Light', 'Dark'), 'effective');
+    assert.equal(runtime.getElementalMatchup('Dark', 'Light'), 'effective');
+    assert.equal(runtime.getElementalMatchup('Fire', 'Light'), 'neutral');
+
+    const [fighter, geomancer] = runtime.CharacterFactory.createMatchPlayers('Fighter', 'Geomancer');
+    const [water, earth] = runtime.CharacterFactory.createMatchPlayers('Fighter', 'Geomancer');
+    water.switchElementalMode();
+    const events = [];
+    [water, earth].forEach(target => target.attach({
+        update: event => { if ('currentHealth' in event) events.push(event); },
+    }));
+
+    // Same Fire attack: resisted by Water, neutral against Earth
+    const fireAttack = fighter.getElementalMode().attack(fighter, geomancer);
+    water.takeDamage(fireAttack);
+    earth.takeDamage(fireAttack);
+
+    const [resistedHit, neutralHit] = events;
+    assert.equal(resistedHit.matchup, 'resisted');
+    assert.equal(neutralHit.matchup, undefined);
+    assert.ok(water.lastHitStun < earth.lastHitStun);
+    assert.ok(Math.abs(water.velocity.x) < Math.abs(earth.velocity.x));
+});
+
+test('Training dummy blocks on command and frame data measures the blocked hit', () => {
+    const simulation = new runtime.GameSimulation({ Player1: 'Fighter', Player2: 'Fighter' }, 5);
+    const { player1, player2 } = simulation;
+    const dummy = new runtime.TrainingDummy('block');
+    const tracker = new runtime.FrameDataTracker([player1, player2]);
+
+    player1.position.x = 300;
+    player2.position.x = 370;
+
+    const step = () => {
+        dummy.getCommands(player2, player1).forEach(command => command.execute(player2));
+        simulation.step();
+        tracker.afterStep();
+    };
+
+    step();
+    assert.equal(player2.getStateName(), 'block');
+
+    const initialHealth = player2.health;
+    new runtime.AttackCommand(true).execute(player1);
+    for (let frame = 0; frame < 120; frame++) {
+        step();
+        if (frame === 0) new runtime.AttackCommand(false).execute(player1);
+    }
+
+    const report = tracker.getReport();
+    assert.ok(report);
+    assert.equal(report.attackerId, 'Player1');
+    assert.equal(report.blocked, true);
+    assert.ok(Math.abs(report.damage - (initialHealth - player2.health)) < 1e-9);
+    assert.ok(report.stunFrames > 0);
+    assert.equal(typeof report.frameAdvantage, 'number');
+
+    // Mirror: holding right makes the dummy walk left, toward the player
+    dummy.setBehavior('mirror');
+    new runtime.MoveCommand('right', true).execute(player1);
+    step();
+    assert.equal(player2.inputFlags.left, true);
+    assert.equal(player2.inputFlags.right, false);
+
+    // A recording replaces the behavior with playback once stopped
+    dummy.startRecording();
+    step();
+    step();
+    dummy.stopRecording();
+    assert.equal(dummy.getBehavior(), 'playback');
+    assert.equal(dummy.getRecordingLength(), 2);
+
+    tracker.dispose();
+});
+
+test('Hitbox overlay outlines hurtboxes and the active attack hitbox where it connects', () => {
+    const [player1, player2] = runtime.CharacterFactory.createMatchPlayers('Fighter', 'Fighter');
+    player1.position.x = 300;
+    player2.position.x = 370;
+
+    // Canvas stand-in that records rectangle outlines and ignores everything else
+    const outlines = [];
+    const ctx = new Proxy({ canvas: { width: 1024 } }, {
+        get(target, key) {
+            if (key in target) return target[key];
+            if (key === 'strokeRect') return (x, y, width, height) => outlines.push({ x, y, width, height });
+            return () => { };
+        },
+        set(target, key, value) {
+            target[key] = value;
+            return true;
+        },
+    });
+    const overlay = new runtime.HitboxOverlay();
+
+    overlay.render(ctx, [player1, player2], []);
+    assert.deepEqual(outlines, [player1.getHurtbox(), player2.getHurtbox()]);
+
+    outlines.length = 0;
+    new runtime.AttackCommand(true).execute(player1);
+    player1.update(0.016);
+    const hitbox = player1.getAttackHitbox();
+    assert.ok(hitbox && hitbox.active);
+
+    overlay.render(ctx, [player1, player2], []);
+    assert.equal(outlines.length, 3);
+    assert.deepEqual(outlines[1], hitbox.getRect());
+    assert.ok(runtime.CollisionSystem.getCollisionPoint(hitbox.getRect(), player2.getHurtbox()));
+});
+
+test('Hits landed during hitstun build a scaled combo that is published when it ends', () => {
+    const [player1, player2] = runtime.CharacterFactory.createMatchPlayers('Fighter', 'Fighter');
+    const combos = [];
+    player2.attach({ update: event => { if ('hits' in event) combos.push({ ...event }); } });
+
+    const hit = () => player2.takeDamage({
+        damage: 10,
+        knockback: { x: 100, y: 0 },
+        hitStun: 200,
+        particleType: 'fire',
+    });
+
+    const startHealth = player2.health;
+    hit();
+    const firstHitDamage = startHealth - player2.health;
+    assert.equal(combos.length, 0);
+
+    hit();
+    hit();
+    assert.equal(player2.getComboHits(), 3);
+    assert.equal(combos.length, 2);
+
+    const running = combos[1];
+    assert.equal(running.playerId, 'Player1');
+    assert.equal(running.targetId, 'Player2');
+    assert.equal(running.hits, 3);
+    assert.equal(running.finished, false);
+    assert.ok(Math.abs(running.damage - (startHealth - player2.health)) < 1e-9);
+    // Later hits are scaled down, so three hits do less than three full ones
+    assert.ok(running.damage < firstHitDamage * 3);
+
+    for (let frame = 0; frame < 30 && player2.isHitStunned; frame++) {
+        player2.update(1 / 60);
+    }
+    player2.update(1 / 60);
+
+    assert.equal(combos.length, 3);
+    assert.equal(combos[2].finished, true);
+    assert.equal(combos[2].hits, 3);
+    assert.equal(player2.getComboHits(), 0);
+
+    // A fresh hit after recovering starts over at full damage
+    const healthBefore = player2.health;
+    hit();
+    assert.ok(Math.abs(healthBefore - player2.health - firstHitDamage) < 1e-9);
+    assert.equal(combos.length, 3);
+});
+
+test('Super meter fills from damage and pays for EX attacks and cinematic supers', () => {
+    const simulation = new runtime.GameSimulation({ Player1: 'Fighter', Player2: 'Fighter' });
+    const { player1, player2 } = simulation;
+
+    player2.takeDamage({ damage: 10, knockback: { x: 0, y: 0 }, hitStun: 100, particleType: 'fire' });
+    const dealt = player1.getMeter();
+    const taken = player2.getMeter();
+    assert.ok(taken > 0);
+    assert.ok(dealt > taken);
+
+    // Block + Attack spends a bar on the EX version of the normal attack
+    simulation.resetRound();
+    player1.gainMeter(player1.maxMeter / 2);
+    new runtime.BlockCommand(true).execute(player1);
+    new runtime.AttackCommand(true).execute(player1);
+    simulation.step();
+    assert.equal(player1.getStateName(), 'attack');
+    assert.equal(player1.isExAttack, true);
+    assert.equal(player1.getMeter(), 0);
+
+    // ↓ → ↓ → + Attack needs a full meter; otherwise it is the mode special
+    const superMotion = () => {
+        for (const direction of ['down', 'right', 'down']) {
+            new runtime.MoveCommand(direction, true).execute(player1);
+            simulation.step();
+            new runtime.MoveCommand(direction, false).execute(player1);
+        }
+        new runtime.MoveCommand('right', true).execute(player1);
+        new runtime.AttackCommand(true).execute(player1);
+        simulation.step();
+        new runtime.MoveCommand('right', false).execute(player1);
+        new runtime.AttackCommand(false).execute(player1);
+    };
+
+    simulation.resetRound();
+    superMotion();
+    assert.equal(player1.getActiveSpecialMove()?.name, 'Flame Wave');
+    assert.equal(simulation.getSuperFreeze(), null);
+
+    simulation.resetRound();
+    player1.gainMeter(player1.maxMeter);
+    superMotion();
+    assert.equal(player1.getActiveSpecialMove()?.name, 'Steam Eruption');
+    assert.equal(player1.getMeter(), 0);
+    assert.equal(simulation.getSuperFreeze()?.moveName, 'Steam Eruption');
+
+    // Everything holds still during the freeze, including the round clock
+    const roundTime = simulation.getRoundTime();
+    const position = { ...player2.position };
+    for (let frame = 0; frame < runtime.SUPER_FREEZE_FRAMES; frame++) simulation.step();
+    assert.equal(simulation.getSuperFreeze(), null);
+    assert.equal(simulation.getRoundTime(), roundTime);
+    assert.deepEqual(player2.position, position);
+    assert.equal(player1.getStateName(), 'special');
+});
+
+test('Throws beat a blocking opponent up close, switch sides, and can be teched', () => {
+    const simulation = new runtime.GameSimulation({ Player1: 'Fighter', Player2: 'Fighter' });
+    const { player1, player2 } = simulation;
+    const standClose = () => {
+        simulation.resetRound();
+        player2.position.x = player1.position.x + player1.width + 10;
+        new runtime.BlockCommand(true).execute(player2);
+        simulation.step();
+    };
+    const pressThrow = character => {
+        new runtime.ThrowCommand(true).execute(character);
+        simulation.step();
+        new runtime.ThrowCommand(false).execute(character);
+    };
+
+    // Grab lands after its startup and the hold ends in a side-switching throw
+    standClose();
+    assert.equal(player2.getStateName(), 'block');
+    pressThrow(player1);
+    assert.equal(player1.getStateName(), 'throw');
+    for (let frame = 0; frame < runtime.THROW_STARTUP_FRAMES; frame++) simulation.step();
+    assert.equal(player2.getStateName(), 'hit');
+    assert.equal(player2.health, player2.maxHealth);
+
+    for (let frame = 0; frame < runtime.THROW_TECH_WINDOW_FRAMES; frame++) simulation.step();
+    assert.equal(player2.health, player2.maxHealth - runtime.THROW_DAMAGE);
+    assert.ok(player2.position.x < player1.position.x);
+    assert.equal(player1.facingRight, false);
+
+    // Pressing throw while held escapes without damage
+    standClose();
+    new runtime.BlockCommand(false).execute(player2);
+    pressThrow(player1);
+    for (let frame = 0; frame < runtime.THROW_STARTUP_FRAMES; frame++) simulation.step();
+    assert.equal(player2.getStateName(), 'hit');
+    pressThrow(player2);
+    simulation.step();
+    assert.equal(player1.states.throw.getPhase(), 'teched');
+    assert.equal(player2.getStateName(), 'throw');
+    for (let frame = 0; frame < runtime.THROW_TECH_WINDOW_FRAMES; frame++) simulation.step();
+    assert.equal(player2.health, player2.maxHealth);
+    assert.ok(player2.position.x > player1.position.x + player1.width + 10);
+
+    // Out of range the grab whiffs
+    simulation.resetRound();
+    pressThrow(player1);
+    for (let frame = 0; frame <= runtime.THROW_STARTUP_FRAMES; frame++) simulation.step();
+    assert.equal(player1.states.throw.getPhase(), 'whiff');
+    assert.equal(player2.getStateName(), 'idle');
+});
+
+test('Crouching shortens the hurtbox, attacks low, and only a crouching guard stops lows', () => {
+    const simulation = new runtime.GameSimulation({ Player1: 'Fighter', Player2: 'Fighter' });
+    const { player1, player2 } = simulation;
+    const standingHurtbox = player1.getHurtbox();
+
+    new runtime.MoveCommand('down', true).execute(player1);
+    simulation.step();
+    assert.equal(player1.getStateName(), 'crouch');
+    const crouchingHurtbox = player1.getHurtbox();
+    assert.ok(crouchingHurtbox.height < standingHurtbox.height);
+    assert.equal(crouchingHurtbox.y + crouchingHurtbox.height, standingHurtbox.y + standingHurtbox.height);
+
+    // Crouching attack: hitbox at foot level
+    new runtime.AttackCommand(true).execute(player1);
+    simulation.step();
+    const lowHitbox = player1.getAttackHitbox().getRect();
+    assert.equal(lowHitbox.y + lowHitbox.height, standingHurtbox.y + standingHurtbox.height);
+    assert.ok(lowHitbox.y > standingHurtbox.y + standingHurtbox.height / 2);
+
+    const attack = height => ({ damage: 10, knockback: { x: 100, y: 0 }, hitStun: 200, particleType: 'fire', height });
+    const guard = crouching => {
+        simulation.resetRound();
+        new runtime.BlockCommand(true).execute(player2);
+        new runtime.MoveCommand('down', crouching).execute(player2);
+        simulation.step();
+        assert.equal(player2.isCrouching, crouching);
+    };
+
+    guard(false);
+    assert.equal(player2.takeDamage(attack('low')), 'hit');
+    guard(false);
+    assert.equal(player2.takeDamage(attack('high')), 'blocked');
+    guard(true);
+    assert.equal(player2.takeDamage(attack('low')), 'blocked');
+    guard(true);
+    assert.equal(player2.takeDamage(attack('high')), 'hit');
+    guard(true);
+    assert.equal(player2.takeDamage(attack('mid')), 'blocked');
+});
+
+test('Jumping attacks use aerial hitboxes, hit high, and land into recovery; Wind air-dashes', () => {
+    const simulation = new runtime.GameSimulation({ Player1: 'Fighter', Player2: 'Geomancer' });
+    const { player1, player2 } = simulation;
+    const jump = character => {
+        new runtime.MoveCommand('up', true).execute(character);
+        for (let frame = 0; frame < 3; frame++) simulation.step();
+        new runtime.MoveCommand('up', false).execute(character);
+        assert.equal(character.isGrounded, false);
+    };
+    const attack = character => {
+        new runtime.AttackCommand(true).execute(character);
+        simulation.step();
+        new runtime.AttackCommand(false).execute(character);
+    };
+
+    jump(player1);
+    attack(player1);
+    const aerial = runtime.AERIAL_ATTACKS.Fire;
+    const hitbox = player1.getAttackHitbox().getRect();
+    assert.equal(hitbox.y, player1.position.y + aerial.hitbox.offsetY);
+    assert.equal(hitbox.height, aerial.hitbox.height);
+
+    // Aerials are highs: a crouching guard does not stop them
+    player2.isBlocking = true;
+    player2.isCrouching = true;
+    player2.facingRight = false;
+    player2.position.x = hitbox.x;
+    player2.position.y = hitbox.y;
+    assert.equal(player1.checkAttackHit(), true);
+    assert.equal(player2.getStateName(), 'hit');
+    assert.equal(player2.lastHitStun, aerial.hitStun);
+
+    // Attacking late in the jump: the ground cuts it short with landing recovery
+    simulation.resetRound();
+    jump(player1);
+    for (let frame = 0; frame < 60 && player1.velocity.y < 400; frame++) simulation.step();
+    attack(player1);
+    for (let frame = 0; frame < 60 && !player1.isGrounded; frame++) simulation.step();
+    assert.equal(player1.getStateName(), 'attack');
+    assert.equal(player1.getAttackHitbox(), null);
+
+    // Wind with a direction held turns the jumping attack into an air dash
+    simulation.resetRound();
+    player2.switchElementalMode();
+    assert.equal(player2.getModeName(), 'Wind');
+    jump(player2);
+    new runtime.MoveCommand('left', true).execute(player2);
+    attack(player2);
+    const startX = player2.position.x;
+    simulation.step();
+    assert.equal(player2.getAerialAttack(), runtime.WIND_AIR_DASH_ATTACK);
+    assert.equal(player2.velocity.y, 0);
+    assert.ok(player2.position.x < startX);
+});
+
+test('Double taps dash and backdash by mode distance; backdashes dodge attacks; Earth cannot air-dash', () => {
+    const simulation = new runtime.GameSimulation({ Player1: 'Fighter', Player2: 'Geomancer' });
+    const { player1, player2 } = simulation;
+    const doubleTap = (character, direction) => {
+        for (const held of [true, false, true]) {
+            new runtime.MoveCommand(direction, held).execute(character);
+            simulation.step();
+        }
+    };
+    const finishDash = character => {
+        for (let frame = 0; frame < 60 && character.getStateName() === 'dash'; frame++) simulation.step();
+    };
+
+    // Forward dash covers about the mode's dash distance
+    const startX = player1.position.x;
+    doubleTap(player1, 'right');
+    assert.equal(player1.getStateName(), 'dash');
+    new runtime.MoveCommand('right', false).execute(player1);
+    finishDash(player1);
+    const dashed = player1.position.x - startX;
+    assert.ok(dashed > runtime.DASH_PROFILES.Fire.distance * 0.9, `dashed ${dashed}`);
+    assert.ok(dashed < runtime.DASH_PROFILES.Fire.distance * 1.25, `dashed ${dashed}`);
+
+    // A grounded backdash starts invulnerable
+    simulation.resetRound();
+    new runtime.AttackCommand(true).execute(player2);
+    simulation.step();
+    new runtime.AttackCommand(false).execute(player2);
+    doubleTap(player1, 'left');
+    simulation.step();
+    assert.equal(player1.getStateName(), 'dash');
+    assert.equal(player1.isInvulnerable, true);
+    assert.ok(player1.position.x < runtime.PLAYER1_START.x);
+    const hitbox = player2.getAttackHitbox().getRect();
+    player1.position.x = hitbox.x;
+    player1.position.y = hitbox.y;
+    assert.equal(player2.checkAttackHit(), false);
+    assert.equal(player1.health, player1.maxHealth);
+    new runtime.MoveCommand('left', false).execute(player1);
+    finishDash(player1);
+    assert.equal(player1.isInvulnerable, false);
+
+    // Air dash: Earth has none, Wind keeps its height
+    const jumpAndTap = character => {
+        new runtime.MoveCommand('up', true).execute(character);
+        for (let frame = 0; frame < 3; frame++) simulation.step();
+        new runtime.MoveCommand('up', false).execute(character);
+        doubleTap(character, 'left');
+    };
+    simulation.resetRound();
+    jumpAndTap(player2);
+    assert.equal(player2.isGrounded, false);
+    assert.notEqual(player2.getStateName(), 'dash');
+
+    simulation.resetRound();
+    player2.switchElementalMode();
+    assert.equal(player2.getModeName(), 'Wind');
+    jumpAndTap(player2);
+    assert.equal(player2.getStateName(), 'dash');
+    assert.equal(player2.velocity.y, 0);
+    assert.ok(player2.velocity.x < 0);
+});
+
+test('Hits freeze both fighters for a damage-scaled hitstop and the camera frames them on a wide stage', () => {
+    const simulation = new runtime.GameSimulation({ Player1: 'Fighter', Player2: 'Fighter' });
+    const { player1, player2 } = simulation;
+
+    const light = { damage: 4, knockback: { x: 300, y: 0 }, hitStun: 300, particleType: 'hit' };
+    player2.takeDamage(light);
+    const lightHitstop = simulation.getHitstopFrames();
+    assert.ok(lightHitstop > 0);
+
+    simulation.resetRound();
+    player2.takeDamage({ ...light, damage: 30 });
+    const heavyHitstop = simulation.getHitstopFrames();
+    assert.ok(heavyHitstop > lightHitstop);
+
+    // Knockback waits for the hitstop to end
+    const frozenX = player2.position.x;
+    for (let frame = 0; frame < heavyHitstop; frame++) simulation.step();
+    assert.equal(player2.position.x, frozenX);
+    assert.equal(player2.getStateName(), 'hit');
+    simulation.step();
+    assert.ok(player2.position.x > frozenX);
+
+    // The camera keeps both fighters on screen and never shows past the stage
+    assert.ok(runtime.STAGE_WIDTH > runtime.CANVAS_WIDTH);
+    const camera = new runtime.Camera();
+    const fighter = x => ({ x, y: player1.position.y, width: player1.width, height: player1.height });
+    const toScreenX = worldX => {
+        const view = camera.getViewRect();
+        return (worldX - view.x) * camera.getZoom();
+    };
+    const framesBoth = (left, right) => {
+        const rects = [fighter(left), fighter(right)];
+        camera.snapTo(rects);
+        for (let frame = 0; frame < 120; frame++) camera.follow(rects, 1 / 60);
+        const view = camera.getViewRect();
+        assert.ok(view.x >= -0.001 && view.x + view.width <= runtime.STAGE_WIDTH + 0.001);
+        assert.ok(toScreenX(left) >= -0.001 && toScreenX(right + player1.width) <= runtime.CANVAS_WIDTH + 0.001);
+    };
+
+    framesBoth(0, 900);
+    const wideZoom = camera.getZoom();
+    framesBoth(runtime.STAGE_WIDTH - 400, runtime.STAGE_WIDTH - player1.width);
+    assert.ok(camera.getZoom() > wideZoom);
+
+    // Drawing between steps blends the last two views, just like the fighters
+    const before = camera.getViewRect();
+    camera.follow([fighter(100), fighter(500)], 1 / 60);
+    const after = camera.getViewRect();
+    assert.ok(after.x < before.x);
+    assert.deepEqual(camera.getViewRect(0), before);
+    assert.ok(Math.abs(camera.getViewRect(0.5).x - (before.x + after.x) / 2) < 1);
+    assert.ok(Math.abs(camera.getZoom(0.5) - (camera.getZoom(0) + camera.getZoom(1)) / 2) < 0.001);
+
+    // Screen shake scales with damage and dies down
+    camera.shake(4);
+    const lightShake = camera.getShakeAmplitude();
+    camera.shake(30);
+    assert.ok(camera.getShakeAmplitude() > lightShake);
+    for (let frame = 0; frame < 60; frame++) camera.follow([fighter(600), fighter(800)], 1 / 60);
+    assert.equal(camera.getShakeAmplitude(), 0);
+});
+
+test('Stages set the floor, walls and start positions, keep fighters within reach, and travel with replays', () => {
+    const stage = runtime.STAGES.EmberCanyon;
+    const simulation = new runtime.GameSimulation({ Player1: 'Fighter', Player2: 'Fighter' }, 0, undefined, stage.id);
+    const { player1, player2 } = simulation;
+
+    assert.equal(player1.position.x, stage.startX.Player1);
+    assert.equal(player2.position.x, stage.startX.Player2);
+
+    // Every stage starts the fighters the same distance either side of its center
+    Object.values(runtime.STAGES).forEach(({ width, startX }) => {
+        assert.equal(startX.Player1, width / 2 - runtime.START_OFFSET_FROM_CENTER);
+        assert.equal(startX.Player2 + player2.width, width / 2 + runtime.START_OFFSET_FROM_CENTER);
+    });
+
+    simulation.step();
+    assert.equal(player1.position.y + player1.height, stage.groundY);
+    assert.equal(player1.isGrounded, true);
+
+    // Walking away from a still opponent stops at the max distance, not the wall
+    const gap = () => player2.position.x - (player1.position.x + player1.width);
+    new runtime.MoveCommand('left', true).execute(player1);
+    for (let frame = 0; frame < 240; frame++) simulation.step();
+    assert.ok(Math.abs(gap() - stage.maxPlayerDistance) < 0.001, `gap ${gap()}`);
+    assert.ok(player1.position.x > stage.walls.left);
+
+    // With the opponent following, the rock block in front of the wall stops the retreat
+    const rock = stage.surfaces.find(surface => surface.type === 'block');
+    for (let frame = 0; frame < 240; frame++) {
+        player2.position.x = player1.position.x + player1.width + 200;
+        simulation.step();
+    }
+    assert.equal(player1.position.x, rock.x + rock.width);
+
+    // Behind the rock, the wall holds
+    player1.position.x = 0;
+    player2.position.x = player1.position.x + player1.width + 200;
+    simulation.step();
+    assert.equal(player1.position.x, stage.walls.left);
+
+    // Replays remember the stage and unknown stages are rejected
+    const recorder = new runtime.ReplayRecorder({
+        seed: 0,
+        selection: { Player1: 'Fighter', Player2: 'Fighter' },
+        playerDisplayNames: { Player1: 'Left', Player2: 'Right' },
+        stage: stage.id,
+    });
+    recorder.recordFrame(player1, player2);
+    const replay = runtime.ReplayPlayer.parse(JSON.stringify(recorder.toReplay()));
+    assert.equal(replay.stage, stage.id);
+    assert.throws(
+        () => runtime.ReplayPlayer.parse(JSON.stringify({ ...replay, stage: 'Moon' })),
+        /missing required fields/
+    );
+});
+
+test('One-way platforms catch falls and drop through with down + jump, solid blocks stop from every side', () => {
+    const stage = runtime.STAGES.TidalHarbor;
+    const platform = stage.surfaces.find(surface => surface.type === 'platform');
+    const block = stage.surfaces.find(surface => surface.type === 'block');
+    const simulation = new runtime.GameSimulation({ Player1: 'Geomancer', Player2: 'Fighter' }, 0, undefined, stage.id);
+    const player1 = simulation.player1;
+    const feet = () => player1.position.y + player1.height;
+    const launch = (x, y, velocityY) => {
+        player1.position.x = x;
+        player1.position.y = y;
+        player1.velocity.y = velocityY;
+        player1.isGrounded = false;
+        for (let frame = 0; frame < 90; frame++) simulation.step();
+    };
+
+    // Earth's heavy gravity plus a fast fall still lands on the thin platform
+    assert.equal(player1.getModeName(), 'Earth');
+    launch(platform.x + 40, platform.y - 400, 2400);
+    assert.equal(feet(), platform.y);
+    assert.equal(player1.isGrounded, true);
+
+    // Jumping up from below passes through it and lands on top
+    launch(platform.x + 40, platform.y + 20 - player1.height, -700);
+    assert.equal(feet(), platform.y);
+
+    // Holding down crouches on it; jumping from the crouch drops through to the floor
+    player1.switchElementalMode();
+    assert.equal(player1.getModeName(), 'Wind');
+    new runtime.MoveCommand('down', true).execute(player1);
+    for (let frame = 0; frame < 30; frame++) simulation.step();
+    assert.equal(player1.getStateName(), 'crouch');
+    assert.equal(feet(), platform.y);
+
+    new runtime.MoveCommand('up', true).execute(player1);
+    simulation.step();
+    new runtime.MoveCommand('up', false).execute(player1);
+    new runtime.MoveCommand('down', false).execute(player1);
+    for (let frame = 0; frame < 90; frame++) simulation.step();
+    assert.equal(feet(), stage.groundY);
+
+    // Down motions still work up there: down, down-forward, forward + Attack is Flame Wave, not a drop
+    launch(platform.x + 40, platform.y - player1.height - 50, 0);
+    assert.equal(feet(), platform.y);
+    const player2 = simulation.player2;
+    player2.position.x = platform.x + 200;
+    player2.position.y = platform.y - player2.height - 50;
+    for (let frame = 0; frame < 60; frame++) simulation.step();
+    assert.equal(player2.position.y + player2.height, platform.y);
+
+    [['down'], ['down', 'left'], ['left']].forEach((directions, index) => {
+        ['left', 'down'].forEach(direction => {
+            new runtime.MoveCommand(direction, directions.includes(direction)).execute(player2);
+        });
+        new runtime.AttackCommand(index === 2).execute(player2);
+        simulation.step();
+    });
+    new runtime.MoveCommand('left', false).execute(player2);
+    new runtime.AttackCommand(false).execute(player2);
+    assert.equal(player2.getActiveSpecialMove()?.name, 'Flame Wave');
+    assert.equal(player2.position.y + player2.height, platform.y);
+
+    // Blocks: land on top, and walking into the side stops at it
+    launch(block.x + 10, block.y - 150, 0);
+    assert.equal(feet(), block.y);
+    assert.equal(player1.isGrounded, true);
+
+    launch(block.x + block.width + 30, stage.groundY - player1.height, 0);
+    new runtime.MoveCommand('left', true).execute(player1);
+    for (let frame = 0; frame < 30; frame++) simulation.step();
+    new runtime.MoveCommand('left', false).execute(player1);
+    assert.equal(player1.position.x, block.x + block.width);
+    assert.equal(feet(), stage.groundY);
+
+    // A rising special done on a block ends once it comes back down onto it
+    const riser = new runtime.GameSimulation({ Player1: 'Fighter', Player2: 'Geomancer' }, 0, undefined, stage.id);
+    const fighter = riser.player1;
+    fighter.switchElementalMode();
+    fighter.position.x = block.x + 10;
+    fighter.position.y = block.y - 150;
+    for (let frame = 0; frame < 60; frame++) riser.step();
+    assert.equal(fighter.position.y + fighter.height, block.y);
+
+    // Forward, down, down-forward + attack: Tidal Riser in Water mode
+    const press = (directions, attack) => {
+        ['right', 'down'].forEach(direction => {
+            new runtime.MoveCommand(direction, directions.includes(direction)).execute(fighter);
+        });
+        new runtime.AttackCommand(attack).execute(fighter);
+        riser.step();
+    };
+    press(['right'], false);
+    press(['down'], false);
+    press(['right', 'down'], true);
+    press([], false);
+    assert.equal(fighter.getActiveSpecialMove()?.name, 'Tidal Riser');
+
+    let frames = 0;
+    let peak = fighter.position.y;
+    while (fighter.getStateName() === 'special' && frames < 240) {
+        riser.step();
+        peak = Math.min(peak, fighter.position.y);
+        frames++;
+    }
+    assert.ok(peak < block.y - fighter.height - 50, `rose to y=${peak}`);
+    assert.equal(fighter.getStateName(), 'idle');
+    assert.equal(fighter.position.y + fighter.height, block.y);
+});
+
 async function runAll() {
     let passed = 0;
     let failed = 0;